@@ -0,0 +1,40 @@
+/**
+ * 配列を指定した件数ごとに分割
+ * @param {T[]} items - 分割する配列
+ * @param {number} size - 1つあたりの件数
+ * @return {Array<T[]>} 分割した配列
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * 同時実行数を制限して非同期処理を実行
+ * @param {T[]} items - 処理する要素
+ * @param {number} concurrency - 同時実行数の上限
+ * @param {Function} fn - 要素ごとの処理
+ * @return {Promise<R[]>} 処理結果（itemsと同じ順）
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({length: workerCount}, () => worker()));
+  return results;
+}
@@ -0,0 +1,279 @@
+import * as crypto from "crypto";
+import * as admin from "firebase-admin";
+import {ScheduleTemplateData} from "./types";
+import {
+  calendarDateToZonedMidnight,
+  toZonedCalendarDate,
+} from "./timezone";
+import {getGenerationRange, projectTemplateRecurrence} from "./recurrence";
+import {RRuleParseError, formatRuleValue} from "./rrule";
+import {
+  ICS_UID_DOMAIN,
+  IcsComponent,
+  IcsProperty,
+  buildCalendar,
+  escapeIcsText,
+  formatIcsDate,
+  formatIcsDateTime,
+} from "./ics";
+
+/**
+ * フィードのトークンのハッシュを保存するフィールド名
+ * users/{userId}・groups/{groupId} は他のユーザーも読み取れるため、
+ * トークン自体は保存せずSHA-256のハッシュのみを保存する
+ */
+export const FEED_TOKEN_HASH_FIELD = "icsFeedTokenHash";
+
+/**
+ * フィードの対象（個人またはグループ）
+ */
+export type FeedScope = "user" | "group";
+
+/**
+ * フィードに含める過去の日数
+ */
+const FEED_PAST_DAYS = 30;
+
+/**
+ * トークンのハッシュを計算
+ * @param {string} token - トークン
+ * @return {string} SHA-256のハッシュ（16進数）
+ */
+export function hashFeedToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * 新しいトークンを発行
+ * @return {Object} トークンとそのハッシュ
+ */
+export function createFeedToken(): {token: string; tokenHash: string} {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return {token, tokenHash: hashFeedToken(token)};
+}
+
+/**
+ * トークンが保存済みのハッシュと一致するかを検証
+ * @param {string} token - リクエストのトークン
+ * @param {unknown} storedHash - ドキュメントに保存されたハッシュ
+ * @return {boolean} 一致する場合true
+ */
+export function verifyFeedToken(token: string, storedHash: unknown): boolean {
+  if (typeof storedHash !== "string" || storedHash.length === 0) {
+    return false;
+  }
+  const expected = Buffer.from(storedHash, "hex");
+  const actual = Buffer.from(hashFeedToken(token), "hex");
+  return expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * タスクからVEVENTとVTODOを作成
+ * @param {admin.firestore.QueryDocumentSnapshot} doc - タスク
+ * @param {string} timeZone - 日付を判定するIANAタイムゾーン
+ * @param {Date} now - DTSTAMPに使う現在日時
+ * @return {IcsComponent[]} コンポーネント
+ */
+function taskToComponents(
+  doc: admin.firestore.QueryDocumentSnapshot,
+  timeZone: string,
+  now: Date
+): IcsComponent[] {
+  const task = doc.data();
+  const date = toZonedCalendarDate(
+    (task.scheduledDate as admin.firestore.Timestamp).toDate(),
+    timeZone
+  );
+  const nextDate = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + 1
+  );
+  const completedAt =
+    (task.completedAt as admin.firestore.Timestamp | null)?.toDate() ?? null;
+  const updatedAt =
+    (task.updatedAt as admin.firestore.Timestamp | undefined)?.toDate() ?? now;
+  const title = (task.title as string | undefined) || "タスク";
+  const description = task.description as string | undefined;
+
+  const common: IcsProperty[] = [
+    ["DTSTAMP", formatIcsDateTime(updatedAt)],
+    ["SUMMARY", escapeIcsText(completedAt ? `✓ ${title}` : title)],
+  ];
+  if (description) {
+    common.push(["DESCRIPTION", escapeIcsText(description)]);
+  }
+  if (task.templateId) {
+    common.push(
+      ["RELATED-TO", `template-${task.templateId}@${ICS_UID_DOMAIN}`]
+    );
+  }
+
+  const event: IcsComponent = {
+    type: "VEVENT",
+    properties: [
+      ["UID", `task-${doc.id}@${ICS_UID_DOMAIN}`],
+      ...common,
+      ["DTSTART;VALUE=DATE", formatIcsDate(date)],
+      ["DTEND;VALUE=DATE", formatIcsDate(nextDate)],
+      ["TRANSP", "TRANSPARENT"],
+    ],
+  };
+
+  const todo: IcsComponent = {
+    type: "VTODO",
+    properties: [
+      ["UID", `todo-${doc.id}@${ICS_UID_DOMAIN}`],
+      ...common,
+      ["DUE;VALUE=DATE", formatIcsDate(date)],
+      ["STATUS", completedAt ? "COMPLETED" : "NEEDS-ACTION"],
+    ],
+  };
+  if (completedAt) {
+    todo.properties.push(
+      ["COMPLETED", formatIcsDateTime(completedAt)],
+      ["PERCENT-COMPLETE", "100"]
+    );
+  }
+
+  return [event, todo];
+}
+
+/**
+ * 生成済みタスクより先の繰り返しを、テンプレートの繰り返し予定として作成
+ * @param {admin.firestore.QueryDocumentSnapshot} doc - テンプレート
+ * @param {Date} afterDate - タスクを生成済みの最終日
+ * @param {string} timeZone - 日付を判定するIANAタイムゾーン
+ * @param {Date} now - DTSTAMPに使う現在日時
+ * @return {IcsComponent | null} VEVENT（RRULEで表現できない場合はnull）
+ */
+function templateToComponent(
+  doc: admin.firestore.QueryDocumentSnapshot,
+  afterDate: Date,
+  timeZone: string,
+  now: Date
+): IcsComponent | null {
+  const template = {id: doc.id, ...doc.data()} as ScheduleTemplateData;
+
+  let recurrence;
+  try {
+    recurrence = projectTemplateRecurrence(template, afterDate, timeZone);
+  } catch (error) {
+    if (error instanceof RRuleParseError) {
+      return null;
+    }
+    throw error;
+  }
+  if (!recurrence?.dtstart) {
+    return null;
+  }
+
+  const start = recurrence.dtstart;
+  const end = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() + 1
+  );
+  const properties: IcsProperty[] = [
+    ["UID", `template-${doc.id}@${ICS_UID_DOMAIN}`],
+    ["DTSTAMP", formatIcsDateTime(now)],
+    ["SUMMARY", escapeIcsText(template.title || "タスク")],
+    ["DTSTART;VALUE=DATE", formatIcsDate(start)],
+    ["DTEND;VALUE=DATE", formatIcsDate(end)],
+    ["RRULE", formatRuleValue(recurrence.rule)],
+    ["TRANSP", "TRANSPARENT"],
+  ];
+  if (template.description) {
+    properties.push(["DESCRIPTION", escapeIcsText(template.description)]);
+  }
+  if (recurrence.exdates.size > 0) {
+    properties.push([
+      "EXDATE;VALUE=DATE",
+      Array.from(recurrence.exdates).sort()
+        .map((key) => key.replace(/-/g, "")).join(","),
+    ]);
+  }
+
+  return {type: "VEVENT", properties};
+}
+
+/**
+ * 個人またはグループのタスクのiCalendarフィードを作成
+ * 過去30日から生成範囲の最終日までのタスクをVEVENT・VTODOとして出力し、
+ * それより先は有効なテンプレートの繰り返し予定（RRULE）として出力する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {FeedScope} scope - フィードの対象
+ * @param {string} ownerId - ユーザーIDまたはグループID
+ * @param {string} name - カレンダー名
+ * @param {string} timeZone - 日付を判定するIANAタイムゾーン
+ * @return {Promise<string>} iCalendar形式の文字列
+ */
+export async function buildTaskFeed(
+  db: admin.firestore.Firestore,
+  scope: FeedScope,
+  ownerId: string,
+  name: string,
+  timeZone: string
+): Promise<string> {
+  const now = new Date();
+  const {startDate: today, endDate} = getGenerationRange(timeZone);
+  const feedStart = new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate() - FEED_PAST_DAYS
+  );
+  const feedEnd = new Date(
+    endDate.getFullYear(),
+    endDate.getMonth(),
+    endDate.getDate() + 1
+  );
+
+  const ownerField = scope === "group" ? "groupId" : "userId";
+  const [tasksSnapshot, templatesSnapshot] = await Promise.all([
+    db.collection("tasks")
+      .where(ownerField, "==", ownerId)
+      .where(
+        "scheduledDate",
+        ">=",
+        admin.firestore.Timestamp.fromDate(
+          calendarDateToZonedMidnight(feedStart, timeZone)
+        )
+      )
+      .where(
+        "scheduledDate",
+        "<",
+        admin.firestore.Timestamp.fromDate(
+          calendarDateToZonedMidnight(feedEnd, timeZone)
+        )
+      )
+      .orderBy("scheduledDate", "asc")
+      .get(),
+    db.collection("schedule_templates")
+      .where(ownerField, "==", ownerId)
+      .where("isActive", "==", true)
+      .get(),
+  ]);
+
+  const components: IcsComponent[] = [];
+  // 個人フィードにはグループのタスク・テンプレートを含めない
+  const belongsToFeed = (doc: admin.firestore.QueryDocumentSnapshot) =>
+    scope === "group" || !doc.data().groupId;
+
+  tasksSnapshot.docs
+    .filter((doc) => doc.data().isDeleted !== true && belongsToFeed(doc))
+    .forEach((doc) => {
+      components.push(...taskToComponents(doc, timeZone, now));
+    });
+
+  templatesSnapshot.docs
+    .filter(belongsToFeed)
+    .forEach((doc) => {
+      const component = templateToComponent(doc, endDate, timeZone, now);
+      if (component) {
+        components.push(component);
+      }
+    });
+
+  return buildCalendar(name, timeZone, components);
+}
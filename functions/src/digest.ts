@@ -0,0 +1,559 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {
+  DEFAULT_TIME_ZONE,
+  getZonedParts,
+  resolveTimeZone,
+  startOfZonedDay,
+  zonedTimeToUtc,
+} from "./timezone";
+import {
+  DeviceMessage,
+  DeviceSendRequest,
+  getUserDeviceTokens,
+  sendToDevicesInBatches,
+  toDataListJson,
+} from "./fcm";
+import {deferNotification, getDeliveryWindow} from "./quietHours";
+import {buildDigestMessage, resolveLocale} from "./messages";
+import {
+  MAX_ACTION_TASK_IDS,
+  NotificationCategory,
+  buildActionData,
+} from "./notificationActions";
+import {chunk, mapWithConcurrency} from "./batching";
+import {getUserGroups} from "./groups";
+
+/**
+ * getAllで1回に読み込むユーザー数
+ */
+const USER_READ_BATCH_SIZE = 100;
+
+/**
+ * ユーザーごとの集計・トークン取得の同時実行数
+ */
+const DIGEST_CONCURRENCY = 20;
+
+/**
+ * 対象ユーザーへのまとめ送信の結果
+ */
+export interface BatchedSendSummary {
+  targetUsers: number;
+  sentUsers: number;
+  deferredUsers: number;
+  noDeviceUsers: number;
+  errorUsers: number;
+  messageCount: number;
+  successCount: number;
+  failureCount: number;
+  prunedCount: number;
+}
+
+/**
+ * 時刻指定のお知らせの1回の実行結果（ログベースの指標として出力する）
+ */
+export interface DigestRunSummary extends BatchedSendSummary {
+  hour: number;
+  durationMs: number;
+}
+
+/**
+ * 設定した時になったユーザー
+ */
+export interface LocalHourTarget {
+  // ユーザーのタイムゾーンでの時
+  hour: number;
+  // 対象の判定で読み込んだフィールド
+  data: admin.firestore.DocumentData;
+}
+
+/**
+ * 未完了タスクの件数
+ */
+interface TaskCounts {
+  todayCount: number;
+  overdueCount: number;
+  // 今日の未完了タスクのID（通知アクション用、上限あり）
+  todayTaskIds: string[];
+}
+
+/**
+ * グループごとの未完了タスクの件数
+ */
+interface GroupTaskCounts extends TaskCounts {
+  groupId: string;
+}
+
+/**
+ * お知らせに含めるタスク数（個人とグループ別）
+ */
+interface DigestCounts {
+  personal: TaskCounts;
+  groups: GroupTaskCounts[];
+}
+
+/**
+ * グループのタスク数を同じ実行内で使い回すためのキャッシュ
+ * キーはグループIDとタイムゾーン（「今日」の範囲はメンバーのタイムゾーンで決まる）
+ */
+type GroupCountCache = Map<string, Promise<TaskCounts>>;
+
+/**
+ * ユーザーごとの準備結果
+ */
+type PreparedNotification =
+  | {kind: "send"; request: DeviceSendRequest}
+  | {kind: "deferred"}
+  | {kind: "error"};
+
+/**
+ * 通知が有効で、設定した時がユーザーのタイムゾーンでの今の時になったユーザーを取得
+ * 対象の判定に必要なフィールドだけを読み込む
+ * timeZoneを設定したユーザーは、そのタイムゾーンの時刻で判定する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} enabledField - 通知の有効/無効のフィールド
+ * @param {string} hourField - 通知の時のフィールド
+ * @param {number} hour - 実行時刻（日本時間 0-23）
+ * @param {Date} now - 実行時刻
+ * @param {string[]} extraFields - 対象の判定に追加で読み込むフィールド
+ * @return {Promise<Map<string, LocalHourTarget>>} ユーザーIDと対象の情報
+ */
+export async function findUsersAtLocalHour(
+  db: admin.firestore.Firestore,
+  enabledField: string,
+  hourField: string,
+  hour: number,
+  now: Date,
+  extraFields: string[] = []
+): Promise<Map<string, LocalHourTarget>> {
+  const users = db.collection("users");
+  const fields = ["timeZone", hourField, ...extraFields];
+
+  const [usersSnapshot, foreignUsersSnapshot] = await Promise.all([
+    // 通知が有効で、この時刻に設定しているユーザー
+    users
+      .where(enabledField, "==", true)
+      .where(hourField, "==", hour)
+      .select(...fields)
+      .get(),
+    // 日本時間以外のタイムゾーンを設定しているユーザー
+    users
+      .where(enabledField, "==", true)
+      .where("timeZone", "!=", DEFAULT_TIME_ZONE)
+      .select(...fields)
+      .get(),
+  ]);
+
+  const targets = new Map<string, LocalHourTarget>();
+
+  // 日本時間のユーザー（timeZone未設定を含む）
+  usersSnapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    if (data.timeZone == null || data.timeZone === DEFAULT_TIME_ZONE) {
+      targets.set(doc.id, {hour, data});
+    }
+  });
+
+  // その他のタイムゾーンのユーザーはローカル時刻で判定
+  foreignUsersSnapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    const localHour = getZonedParts(now, resolveTimeZone(data.timeZone)).hour;
+    if (data[hourField] === localHour) {
+      targets.set(doc.id, {hour: localHour, data});
+    }
+  });
+
+  return targets;
+}
+
+/**
+ * この時刻にお知らせを送信するユーザーと、そのユーザーのローカル時刻を取得
+ * 朝・夜の両方の対象になったユーザーは1件にまとめる
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {number} hour - 実行時刻（日本時間 0-23）
+ * @param {Date} now - 実行時刻
+ * @return {Promise<Map<string, number>>} ユーザーIDとローカル時刻
+ */
+async function findDigestTargets(
+  db: admin.firestore.Firestore,
+  hour: number,
+  now: Date
+): Promise<Map<string, number>> {
+  const [morningTargets, eveningTargets] = await Promise.all([
+    findUsersAtLocalHour(db, "morningEnabled", "morningHour", hour, now),
+    findUsersAtLocalHour(db, "eveningEnabled", "eveningHour", hour, now),
+  ]);
+
+  const targets = new Map<string, number>();
+  [morningTargets, eveningTargets].forEach((items) => {
+    items.forEach((target, userId) => targets.set(userId, target.hour));
+  });
+  return targets;
+}
+
+/**
+ * ユーザードキュメントをgetAllでまとめて読み込む
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string[]} userIds - ユーザーID
+ * @return {Promise<Map<string, admin.firestore.DocumentData>>} ユーザーデータ
+ */
+async function getUsersData(
+  db: admin.firestore.Firestore,
+  userIds: string[]
+): Promise<Map<string, admin.firestore.DocumentData>> {
+  const usersData = new Map<string, admin.firestore.DocumentData>();
+  for (const ids of chunk(userIds, USER_READ_BATCH_SIZE)) {
+    const refs = ids.map((id) => db.collection("users").doc(id));
+    const docs = await db.getAll(...refs);
+    docs.forEach((doc) => {
+      const data = doc.data();
+      if (data) {
+        usersData.set(doc.id, data);
+      }
+    });
+  }
+  return usersData;
+}
+
+/**
+ * 今日の未完了タスク数と遅延タスク数を集計クエリで取得
+ * 未完了はcompletedAtがnullのタスク（タスク生成時に必ずnullで作成している）
+ * 論理削除したタスク（無効化・削除したテンプレートのタスクを含む）は数えない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} ownerField - 個人タスクはuserId、グループタスクはgroupId
+ * @param {string} ownerId - ユーザーIDまたはグループID
+ * @param {Date} today - 今日の開始時刻
+ * @param {Date} tomorrow - 明日の開始時刻
+ * @return {Promise<TaskCounts>} タスク数
+ */
+async function countPendingTasks(
+  db: admin.firestore.Firestore,
+  ownerField: "userId" | "groupId",
+  ownerId: string,
+  today: Date,
+  tomorrow: Date
+): Promise<TaskCounts> {
+  const pendingTasks = db
+    .collection("tasks")
+    .where(ownerField, "==", ownerId)
+    .where("isDeleted", "==", false)
+    .where("completedAt", "==", null);
+  const todayQuery = pendingTasks
+    .where("scheduledDate", ">=", admin.firestore.Timestamp.fromDate(today))
+    .where("scheduledDate", "<", admin.firestore.Timestamp.fromDate(tomorrow));
+  const overdueQuery = pendingTasks
+    .where("scheduledDate", "<", admin.firestore.Timestamp.fromDate(today));
+
+  const [todaySnapshot, overdueSnapshot] = await Promise.all([
+    todayQuery.count().get(),
+    overdueQuery.count().get(),
+  ]);
+  const todayCount = todaySnapshot.data().count;
+  const overdueCount = overdueSnapshot.data().count;
+
+  // 通知アクション用に今日のタスクIDだけを取得
+  let todayTaskIds: string[] = [];
+  if (todayCount > 0) {
+    const idsSnapshot = await todayQuery
+      .select()
+      .limit(MAX_ACTION_TASK_IDS)
+      .get();
+    todayTaskIds = idsSnapshot.docs.map((doc) => doc.id);
+  }
+
+  return {todayCount, overdueCount, todayTaskIds};
+}
+
+/**
+ * ユーザー本人のタスクと、所属する全グループのタスクの件数を取得
+ * 「今日」の範囲はユーザーのタイムゾーンで判定する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {string} timeZone - ユーザーのタイムゾーン
+ * @param {Date} now - 実行時刻
+ * @param {GroupCountCache} groupCountCache - グループのタスク数のキャッシュ
+ * @return {Promise<DigestCounts>} タスク数
+ */
+async function countDigestTasks(
+  db: admin.firestore.Firestore,
+  userId: string,
+  timeZone: string,
+  now: Date,
+  groupCountCache: GroupCountCache
+): Promise<DigestCounts> {
+  const today = startOfZonedDay(now, timeZone);
+  const todayParts = getZonedParts(now, timeZone);
+  const tomorrow = zonedTimeToUtc(
+    todayParts.year,
+    todayParts.month,
+    todayParts.day + 1,
+    timeZone
+  );
+
+  const [personal, groupDocs] = await Promise.all([
+    countPendingTasks(db, "userId", userId, today, tomorrow),
+    getUserGroups(db, userId),
+  ]);
+
+  const groups = await Promise.all(groupDocs.map(async (groupDoc) => {
+    const cacheKey = `${groupDoc.id}|${timeZone}`;
+    let counts = groupCountCache.get(cacheKey);
+    if (!counts) {
+      counts = countPendingTasks(db, "groupId", groupDoc.id, today, tomorrow);
+      groupCountCache.set(cacheKey, counts);
+    }
+    return {
+      ...(await counts),
+      groupId: groupDoc.id,
+    };
+  }));
+
+  return {personal, groups};
+}
+
+/**
+ * 時刻指定のお知らせのメッセージを作成
+ * 件数は個人とグループの合計で、dataにはグループ別の件数も含める
+ * @param {admin.firestore.DocumentData} userData - ユーザー
+ * @param {number} hour - ユーザーのタイムゾーンでの時
+ * @param {DigestCounts} counts - タスク数
+ * @return {DeviceMessage} 送信メッセージ（トークン以外）
+ */
+function buildDigestDeviceMessage(
+  userData: admin.firestore.DocumentData,
+  hour: number,
+  counts: DigestCounts
+): DeviceMessage {
+  const {personal, groups} = counts;
+  const groupTodayCount =
+    groups.reduce((sum, group) => sum + group.todayCount, 0);
+  const groupOverdueCount =
+    groups.reduce((sum, group) => sum + group.overdueCount, 0);
+  const todayCount = personal.todayCount + groupTodayCount;
+  const overdueCount = personal.overdueCount + groupOverdueCount;
+  const todayTaskIds = [
+    ...personal.todayTaskIds,
+    ...groups.flatMap((group) => group.todayTaskIds),
+  ];
+
+  const locale = resolveLocale(userData.locale);
+  const {title, body} = buildDigestMessage(
+    locale,
+    hour,
+    todayCount,
+    overdueCount,
+    groupTodayCount + groupOverdueCount
+  );
+
+  const groupCounts = groups
+    .filter((group) => group.todayCount > 0 || group.overdueCount > 0)
+    .map((group) => ({
+      groupId: group.groupId,
+      todayCount: group.todayCount,
+      overdueCount: group.overdueCount,
+    }));
+
+  return {
+    notification: {
+      title,
+      body,
+    },
+    data: {
+      type: "scheduled_notification",
+      hour: hour.toString(),
+      todayCount: todayCount.toString(),
+      overdueCount: overdueCount.toString(),
+      personalTodayCount: personal.todayCount.toString(),
+      personalOverdueCount: personal.overdueCount.toString(),
+      // [{groupId, todayCount, overdueCount}]のJSON（タスクがあるグループのみ）
+      // グループ名はアプリ側で取得する（dataの4KBの上限を超えないように）
+      groupCounts: toDataListJson(groupCounts),
+      ...buildActionData(NotificationCategory.TASK_DIGEST, todayTaskIds),
+    },
+    android: {
+      priority: "high",
+      notification: {
+        channelId: "default_channel",
+        priority: "high",
+      },
+    },
+    apns: {
+      payload: {
+        aps: {
+          sound: "default",
+          badge: todayCount + overdueCount,
+          category: NotificationCategory.TASK_DIGEST,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * 1ユーザー分の通知を準備
+ * おやすみ時間・ミュート中の場合はここで保留キューに入れる
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {admin.firestore.DocumentData} userData - ユーザー
+ * @param {Date} now - 実行時刻
+ * @param {Function} buildMessage - 送信メッセージを作成する関数
+ * @param {string} label - ログに出す通知の名前
+ * @return {Promise<PreparedNotification>} 準備結果
+ */
+async function prepareNotification(
+  db: admin.firestore.Firestore,
+  userId: string,
+  userData: admin.firestore.DocumentData,
+  now: Date,
+  buildMessage: () => Promise<DeviceMessage>,
+  label: string
+): Promise<PreparedNotification> {
+  try {
+    const [tokens, message] = await Promise.all([
+      getUserDeviceTokens(db, userId, userData),
+      buildMessage(),
+    ]);
+
+    const window = getDeliveryWindow(userData, now);
+    if (window.suppressed) {
+      await deferNotification(db, userId, message, window);
+      return {kind: "deferred"};
+    }
+    return {kind: "send", request: {userId, message, tokens}};
+  } catch (error) {
+    const errorCode = (error as {code?: string}).code;
+    const errorMessage = (error as {message?: string}).message;
+    logger.error(
+      `[${userId}] ${label}の準備エラー`,
+      {errorCode, errorMessage, error}
+    );
+    return {kind: "error"};
+  }
+}
+
+/**
+ * 対象ユーザーへの通知をまとめて送信
+ * ユーザーはgetAllで読み込み、ユーザーごとにメッセージを作成して、
+ * おやすみ時間・ミュート中は保留キューに入れ、それ以外はsendEachで500件ずつ送信する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {Map<string, T>} targets - ユーザーIDと対象の情報
+ * @param {Date} now - 実行時刻
+ * @param {Function} buildMessage - ユーザーの送信メッセージを作成する関数
+ * @param {string} label - ログに出す通知の名前
+ * @return {Promise<BatchedSendSummary>} 送信結果
+ */
+export async function sendToTargetUsers<T>(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  targets: Map<string, T>,
+  now: Date,
+  buildMessage: (
+    userId: string,
+    userData: admin.firestore.DocumentData,
+    target: T
+  ) => Promise<DeviceMessage>,
+  label: string
+): Promise<BatchedSendSummary> {
+  const summary: BatchedSendSummary = {
+    targetUsers: targets.size,
+    sentUsers: 0,
+    deferredUsers: 0,
+    noDeviceUsers: 0,
+    errorUsers: 0,
+    messageCount: 0,
+    successCount: 0,
+    failureCount: 0,
+    prunedCount: 0,
+  };
+  if (targets.size === 0) {
+    return summary;
+  }
+
+  const usersData = await getUsersData(db, Array.from(targets.keys()));
+  const prepared = await mapWithConcurrency(
+    Array.from(usersData.entries()),
+    DIGEST_CONCURRENCY,
+    ([userId, userData]) => prepareNotification(
+      db,
+      userId,
+      userData,
+      now,
+      () => buildMessage(userId, userData, targets.get(userId) as T),
+      label
+    )
+  );
+
+  const requests: DeviceSendRequest[] = [];
+  prepared.forEach((item) => {
+    if (item.kind === "send") {
+      requests.push(item.request);
+    } else if (item.kind === "deferred") {
+      summary.deferredUsers++;
+    } else {
+      summary.errorUsers++;
+    }
+  });
+
+  const results = await sendToDevicesInBatches(db, messaging, requests);
+  results.forEach((result) => {
+    if (result.tokenCount === 0) {
+      summary.noDeviceUsers++;
+    } else if (result.successCount > 0) {
+      summary.sentUsers++;
+    }
+    summary.messageCount += result.tokenCount;
+    summary.successCount += result.successCount;
+    summary.failureCount += result.failureCount;
+    summary.prunedCount += result.prunedCount;
+  });
+  return summary;
+}
+
+/**
+ * 指定された時刻のお知らせをまとめて送信
+ * タスク数は集計クエリで取得し、sendToTargetUsersで全ユーザーにまとめて送信する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {number} hour - 実行時刻（日本時間 0-23）
+ * @param {Date} now - 実行時刻
+ * @return {Promise<DigestRunSummary>} 実行結果
+ */
+export async function runHourlyDigest(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  hour: number,
+  now: Date
+): Promise<DigestRunSummary> {
+  const startedAt = Date.now();
+  const targets = await findDigestTargets(db, hour, now);
+  logger.info(`${hour}時: ${targets.size}人のユーザーに通知送信`);
+
+  const groupCountCache: GroupCountCache = new Map();
+  const sendSummary = await sendToTargetUsers(
+    db,
+    messaging,
+    targets,
+    now,
+    async (userId, userData, localHour) => {
+      const timeZone = resolveTimeZone(userData.timeZone);
+      const counts =
+        await countDigestTasks(db, userId, timeZone, now, groupCountCache);
+      return buildDigestDeviceMessage(userData, localHour, counts);
+    },
+    "通知"
+  );
+
+  const summary: DigestRunSummary = {
+    hour,
+    ...sendSummary,
+    durationMs: 0,
+  };
+  summary.durationMs = Date.now() - startedAt;
+  // ログベースの指標（metric=hourly_notification_run）として集計する
+  logger.info(`${hour}時の通知処理結果`, {
+    metric: "hourly_notification_run",
+    ...summary,
+  });
+  return summary;
+}
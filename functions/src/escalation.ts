@@ -0,0 +1,430 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {getGroupMemberIds, getGroupRole} from "./groups";
+import {getGroupTimeZone} from "./taskGeneration";
+import {
+  calendarDateToZonedMidnight,
+  getZonedParts,
+  toZonedCalendarDate,
+} from "./timezone";
+import {deliverOrDefer} from "./quietHours";
+import {NotificationCategory, buildActionData} from "./notificationActions";
+import {formatMessage, resolveLocale} from "./messages";
+
+/**
+ * グループドキュメントのエスカレーション設定のフィールド名
+ * （Cloud Functions経由でのみ変更できる）
+ */
+export const ESCALATION_POLICY_FIELD = "escalationPolicy";
+
+/**
+ * エスカレーションの通知先
+ * assignee: 担当者（未設定・脱退済みの場合は全メンバー）
+ * managers: オーナー・管理者 / members: 全メンバー
+ */
+export type EscalationTarget = "assignee" | "managers" | "members";
+
+/**
+ * エスカレーションの1段階
+ */
+export interface EscalationLevel {
+  // 予定日から何日遅れたら通知するか
+  afterDays: number;
+  notify: EscalationTarget;
+}
+
+/**
+ * グループのエスカレーション設定
+ */
+export interface EscalationPolicy {
+  enabled: boolean;
+  // 遅れている日数の昇順
+  levels: EscalationLevel[];
+  // 通知する時（グループのタイムゾーン）
+  notifyHour: number;
+}
+
+/**
+ * 段階を指定しない場合の設定（1日後に担当者、3日後にオーナー・管理者）
+ */
+export const DEFAULT_ESCALATION_LEVELS: EscalationLevel[] = [
+  {afterDays: 1, notify: "assignee"},
+  {afterDays: 3, notify: "managers"},
+];
+
+/**
+ * 通知する時を指定しない場合の時
+ */
+const DEFAULT_ESCALATION_HOUR = 9;
+
+/**
+ * 設定できる段階の上限
+ */
+export const MAX_ESCALATION_LEVELS = 5;
+
+/**
+ * 設定できる遅れている日数の上限
+ */
+const MAX_ESCALATION_DAYS = 30;
+
+/**
+ * 最後の段階の日数を過ぎてからも対象にする日数
+ * （設定を有効にした時点で大きく遅れているタスクは通知しない）
+ */
+const ESCALATION_LOOKBACK_DAYS = 7;
+
+/**
+ * エスカレーション設定を検証して正規化
+ * @param {unknown} value - エスカレーション設定
+ * @return {EscalationPolicy | null} 設定（不正な場合はnull）
+ */
+export function parseEscalationPolicy(
+  value: unknown
+): EscalationPolicy | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const data = value as Record<string, unknown>;
+  if (typeof data.enabled !== "boolean") {
+    return null;
+  }
+
+  const notifyHour = data.notifyHour ?? DEFAULT_ESCALATION_HOUR;
+  if (
+    typeof notifyHour !== "number" ||
+    !Number.isInteger(notifyHour) ||
+    notifyHour < 0 ||
+    notifyHour > 23
+  ) {
+    return null;
+  }
+
+  const rawLevels = data.levels ?? DEFAULT_ESCALATION_LEVELS;
+  if (
+    !Array.isArray(rawLevels) ||
+    rawLevels.length === 0 ||
+    rawLevels.length > MAX_ESCALATION_LEVELS
+  ) {
+    return null;
+  }
+  const levels: EscalationLevel[] = [];
+  for (const level of rawLevels) {
+    const afterDays = level?.afterDays;
+    const notify = level?.notify;
+    if (
+      typeof afterDays !== "number" ||
+      !Number.isInteger(afterDays) ||
+      afterDays < 1 ||
+      afterDays > MAX_ESCALATION_DAYS ||
+      !["assignee", "managers", "members"].includes(notify)
+    ) {
+      return null;
+    }
+    levels.push({afterDays, notify});
+  }
+  levels.sort((a, b) => a.afterDays - b.afterDays);
+  // 同じ日数の段階は設定できない（タスクには日数ごとに記録する）
+  if (levels.some((level, i) => i > 0 &&
+    level.afterDays === levels[i - 1].afterDays)) {
+    return null;
+  }
+
+  return {enabled: data.enabled, levels, notifyHour};
+}
+
+/**
+ * タスクの予定日から何日遅れているかを計算
+ * @param {Date} scheduledDate - タスクの予定日時
+ * @param {Date} now - 基準の日時
+ * @param {string} timeZone - 日付の基準とするIANAタイムゾーン
+ * @return {number} 遅れている日数（今日以降の場合は0以下）
+ */
+export function getOverdueDays(
+  scheduledDate: Date,
+  now: Date,
+  timeZone: string
+): number {
+  const taskDate = toZonedCalendarDate(scheduledDate, timeZone);
+  const today = toZonedCalendarDate(now, timeZone);
+  const toDays = (date: Date) =>
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) /
+    (24 * 60 * 60 * 1000);
+  return toDays(today) - toDays(taskDate);
+}
+
+/**
+ * タスクのエスカレーションの記録
+ * tasks/{taskId}.escalations.{afterDays}
+ */
+interface EscalationRecord {
+  notifiedAt: admin.firestore.Timestamp;
+  notify: EscalationTarget;
+  recipientIds: string[];
+  // より上の段階と同時に期限を迎えたため通知しなかった場合true
+  skipped: boolean;
+}
+
+/**
+ * エスカレーションの通知先を取得
+ * @param {admin.firestore.DocumentData} groupData - グループ
+ * @param {admin.firestore.DocumentData} task - タスク
+ * @param {EscalationTarget} target - 通知先
+ * @return {string[]} ユーザーIDのリスト
+ */
+export function getEscalationRecipients(
+  groupData: admin.firestore.DocumentData,
+  task: admin.firestore.DocumentData,
+  target: EscalationTarget
+): string[] {
+  const memberIds = getGroupMemberIds(groupData);
+  if (target === "assignee") {
+    const assigneeId = task.assigneeId as string | null | undefined;
+    return assigneeId && memberIds.includes(assigneeId) ?
+      [assigneeId] :
+      memberIds;
+  }
+  if (target === "managers") {
+    return memberIds.filter((memberId) => {
+      const role = getGroupRole(groupData, memberId);
+      return role === "owner" || role === "admin";
+    });
+  }
+  return memberIds;
+}
+
+/**
+ * まだ記録のない、期限を迎えたエスカレーションの段階を記録する
+ * （送信の前に確定させ、同じ段階を二度通知しない）
+ * 複数の段階が同時に期限を迎えた場合は最も上の段階だけを通知し、他は通知済みにする
+ * 完了・削除済みのタスクは記録しない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.firestore.DocumentReference} taskRef - タスク
+ * @param {admin.firestore.DocumentData} groupData - グループ
+ * @param {EscalationPolicy} policy - エスカレーション設定
+ * @param {Date} now - 実行時刻
+ * @param {string} timeZone - グループのタイムゾーン
+ * @return {Promise<Object | null>} 通知するタスク・段階・通知先
+ */
+async function claimEscalation(
+  db: admin.firestore.Firestore,
+  taskRef: admin.firestore.DocumentReference,
+  groupData: admin.firestore.DocumentData,
+  policy: EscalationPolicy,
+  now: Date,
+  timeZone: string
+): Promise<{
+  task: admin.firestore.DocumentData;
+  level: EscalationLevel;
+  overdueDays: number;
+  recipientIds: string[];
+} | null> {
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(taskRef);
+    const task = doc.data();
+    if (!task || task.completedAt != null || task.isDeleted === true) {
+      return null;
+    }
+
+    const overdueDays = getOverdueDays(
+      (task.scheduledDate as admin.firestore.Timestamp).toDate(),
+      now,
+      timeZone
+    );
+    const recorded = (task.escalations ?? {}) as
+      Record<string, EscalationRecord>;
+    const dueLevels = policy.levels.filter((level) =>
+      level.afterDays <= overdueDays && !recorded[String(level.afterDays)]
+    );
+    if (dueLevels.length === 0) {
+      return null;
+    }
+
+    const level = dueLevels[dueLevels.length - 1];
+    const recipientIds = getEscalationRecipients(groupData, task, level.notify);
+    const notifiedAt = admin.firestore.Timestamp.fromDate(now);
+    const updates: admin.firestore.DocumentData = {};
+    dueLevels.forEach((dueLevel) => {
+      const skipped = dueLevel !== level;
+      const record: EscalationRecord = {
+        notifiedAt,
+        notify: dueLevel.notify,
+        recipientIds: skipped ? [] : recipientIds,
+        skipped,
+      };
+      updates[`escalations.${dueLevel.afterDays}`] = record;
+    });
+    transaction.update(taskRef, updates);
+    return {task, level, overdueDays, recipientIds};
+  });
+}
+
+/**
+ * 1グループの遅れているタスクをエスカレーション
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {admin.firestore.QueryDocumentSnapshot} groupDoc - グループ
+ * @param {EscalationPolicy} policy - エスカレーション設定
+ * @param {Date} now - 実行時刻
+ * @param {string} timeZone - グループのタイムゾーン
+ * @return {Promise<number>} 通知したタスク数
+ */
+async function escalateGroupTasks(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  groupDoc: admin.firestore.QueryDocumentSnapshot,
+  policy: EscalationPolicy,
+  now: Date,
+  timeZone: string
+): Promise<number> {
+  const groupData = groupDoc.data();
+  const today = toZonedCalendarDate(now, timeZone);
+  const dayStart = (offset: number) => admin.firestore.Timestamp.fromDate(
+    calendarDateToZonedMidnight(
+      new Date(
+        today.getFullYear(),
+        today.getMonth(),
+        today.getDate() - offset
+      ),
+      timeZone
+    )
+  );
+  const minDays = policy.levels[0].afterDays;
+  const maxDays = policy.levels[policy.levels.length - 1].afterDays;
+
+  // 最初の段階の日数以上遅れている未完了タスク
+  const overdueSnapshot = await db
+    .collection("tasks")
+    .where("groupId", "==", groupDoc.id)
+    .where("isDeleted", "==", false)
+    .where("completedAt", "==", null)
+    .where("scheduledDate", ">=", dayStart(maxDays + ESCALATION_LOOKBACK_DAYS))
+    .where("scheduledDate", "<", dayStart(minDays - 1))
+    .get();
+
+  let escalatedCount = 0;
+  for (const doc of overdueSnapshot.docs) {
+    try {
+      const claimed = await claimEscalation(
+        db,
+        doc.ref,
+        groupData,
+        policy,
+        now,
+        timeZone
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      const {task, level, overdueDays, recipientIds} = claimed;
+      await Promise.all(recipientIds.map(async (userId) => {
+        // 受信者の言語で文言を作成
+        const userData = (await db.collection("users").doc(userId).get())
+          .data();
+        const locale = resolveLocale(userData?.locale);
+        const groupName = (groupData.name as string | undefined) ||
+          formatMessage(locale, "fallback.group");
+        const taskTitle = (task.title as string | undefined) ||
+          formatMessage(locale, "fallback.task");
+        const days = formatMessage(locale, "unit.days", {count: overdueDays});
+        await deliverOrDefer(db, messaging, userId, {
+          notification: {
+            title: formatMessage(locale, "escalation.title", {groupName}),
+            body: formatMessage(
+              locale,
+              userId === task.assigneeId ?
+                "escalation.body.assignee" :
+                "escalation.body",
+              {taskTitle, days}
+            ),
+          },
+          data: {
+            type: "task_escalation",
+            taskId: doc.id,
+            templateId: (task.templateId as string | undefined) ?? "",
+            groupId: groupDoc.id,
+            escalationLevel: String(level.afterDays),
+            overdueDays: String(overdueDays),
+            ...buildActionData(NotificationCategory.TASK_REMINDER, [doc.id]),
+          },
+          android: {
+            priority: "high",
+            notification: {
+              channelId: "default_channel",
+              priority: "high",
+            },
+          },
+          apns: {
+            payload: {
+              aps: {
+                sound: "default",
+                category: NotificationCategory.TASK_REMINDER,
+              },
+            },
+          },
+        }, {userData, now});
+      }));
+      escalatedCount++;
+    } catch (error) {
+      logger.error(
+        `[遅延エスカレーション] 送信エラー group=${groupDoc.id}, task=${doc.id}`,
+        error
+      );
+    }
+  }
+  return escalatedCount;
+}
+
+/**
+ * エスカレーション設定が有効なグループの遅れているタスクを通知
+ * 各グループのタイムゾーンで設定の時（notifyHour）になったグループだけを処理する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {Date} now - 実行時刻
+ * @return {Promise<number>} 通知したタスク数
+ */
+export async function runOverdueEscalation(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  now: Date
+): Promise<number> {
+  const groupsSnapshot = await db
+    .collection("groups")
+    .where(`${ESCALATION_POLICY_FIELD}.enabled`, "==", true)
+    .get();
+
+  let escalatedCount = 0;
+  for (const groupDoc of groupsSnapshot.docs) {
+    const groupData = groupDoc.data();
+    if (groupData.isActive === false) {
+      continue;
+    }
+    const policy = parseEscalationPolicy(groupData[ESCALATION_POLICY_FIELD]);
+    if (!policy || !policy.enabled) {
+      continue;
+    }
+
+    try {
+      const timeZone = await getGroupTimeZone(db, groupDoc.id);
+      if (getZonedParts(now, timeZone).hour !== policy.notifyHour) {
+        continue;
+      }
+      escalatedCount += await escalateGroupTasks(
+        db,
+        messaging,
+        groupDoc,
+        policy,
+        now,
+        timeZone
+      );
+    } catch (error) {
+      logger.error(`[遅延エスカレーション] エラー group=${groupDoc.id}`, error);
+    }
+  }
+
+  logger.info(
+    `[遅延エスカレーション] 完了: groups=${groupsSnapshot.size}, ` +
+    `tasks=${escalatedCount}`
+  );
+  return escalatedCount;
+}
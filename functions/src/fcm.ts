@@ -0,0 +1,358 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {
+  MAX_SEND_ATTEMPTS,
+  NotificationLogEntry,
+  getRetryDelayMs,
+  isTransientSendError,
+  writeNotificationLog,
+} from "./notificationLog";
+
+/**
+ * デバイスごとのFCMトークンを保存するサブコレクション名
+ * users/{userId}/fcm_tokens/{token}
+ */
+export const FCM_TOKENS_COLLECTION = "fcm_tokens";
+
+/**
+ * 送信先デバイスのトークン情報
+ */
+export interface DeviceToken {
+  token: string;
+  platform: string | null;
+  // 旧形式（users/{userId}.fcmToken）の場合はnull
+  ref: admin.firestore.DocumentReference | null;
+}
+
+/**
+ * トークン以外の送信メッセージ
+ */
+export type DeviceMessage = Omit<admin.messaging.MulticastMessage, "tokens">;
+
+/**
+ * dataペイロードに含める配列のJSONの上限（バイト）
+ * FCMのdataは全体で4KBまでのため、他のキー（通知アクションのタスクIDなど）の分を残す
+ */
+export const MAX_DATA_LIST_BYTES = 1024;
+
+/**
+ * 配列を、上限のバイト数に収まる先頭の要素までJSONにする
+ * @param {unknown[]} items - dataに含める要素（優先する順）
+ * @param {number} maxBytes - JSONの上限（バイト）
+ * @return {string} JSON
+ */
+export function toDataListJson(
+  items: unknown[],
+  maxBytes = MAX_DATA_LIST_BYTES
+): string {
+  for (let count = items.length; count > 0; count--) {
+    const json = JSON.stringify(items.slice(0, count));
+    if (Buffer.byteLength(json, "utf8") <= maxBytes) {
+      return json;
+    }
+  }
+  return "[]";
+}
+
+/**
+ * ユーザーの全デバイスへの送信結果
+ */
+export interface DeviceSendResult {
+  tokenCount: number;
+  successCount: number;
+  failureCount: number;
+  prunedCount: number;
+}
+
+/**
+ * ユーザーの登録済みデバイストークンを取得
+ * 旧形式のfcmTokenフィールドも移行期間中は送信先に含める
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {admin.firestore.DocumentData} userData - 取得済みのユーザーデータ
+ * @return {Promise<DeviceToken[]>} デバイストークンのリスト
+ */
+export async function getUserDeviceTokens(
+  db: admin.firestore.Firestore,
+  userId: string,
+  userData?: admin.firestore.DocumentData
+): Promise<DeviceToken[]> {
+  const userRef = db.collection("users").doc(userId);
+  const [tokensSnapshot, legacyData] = await Promise.all([
+    userRef.collection(FCM_TOKENS_COLLECTION).get(),
+    userData ? Promise.resolve(userData) :
+      userRef.get().then((doc) => doc.data()),
+  ]);
+
+  const tokens: DeviceToken[] = [];
+  const seen = new Set<string>();
+  tokensSnapshot.docs.forEach((doc) => {
+    const token = (doc.data().token as string | undefined) || doc.id;
+    if (seen.has(token)) {
+      return;
+    }
+    seen.add(token);
+    tokens.push({
+      token,
+      platform: (doc.data().platform as string | undefined) ?? null,
+      ref: doc.ref,
+    });
+  });
+
+  const legacyToken = legacyData?.fcmToken as string | undefined;
+  if (legacyToken && !seen.has(legacyToken)) {
+    tokens.push({token: legacyToken, platform: null, ref: null});
+  }
+
+  return tokens;
+}
+
+/**
+ * トークンを削除すべきエラーかどうかを判定
+ * @param {admin.FirebaseError | undefined} error - FCMのエラー
+ * @return {boolean} 削除すべき場合true
+ */
+function shouldPruneToken(error: admin.FirebaseError | undefined): boolean {
+  if (!error) {
+    return false;
+  }
+  return error.code === "messaging/registration-token-not-registered" ||
+    error.code === "messaging/invalid-registration-token" ||
+    isApnsAuthError(error);
+}
+
+/**
+ * APNS認証エラーかどうかを判定
+ * @param {admin.FirebaseError} error - FCMのエラー
+ * @return {boolean} APNS認証エラーの場合true
+ */
+function isApnsAuthError(error: admin.FirebaseError): boolean {
+  return error.code === "messaging/third-party-auth-error" ||
+    (error.message?.includes("Auth error from APNS") ?? false);
+}
+
+/**
+ * 指定時間待つ
+ * @param {number} ms - 待ち時間（ミリ秒）
+ * @return {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 1回のsendEachで送信するメッセージの上限（FCMの制限）
+ */
+const SEND_EACH_BATCH_SIZE = 500;
+
+/**
+ * 複数ユーザーへのまとめ送信の1ユーザー分
+ */
+export interface DeviceSendRequest {
+  userId: string;
+  message: DeviceMessage;
+  tokens: DeviceToken[];
+}
+
+/**
+ * 送信待ちの1デバイス分
+ */
+interface PendingDelivery {
+  requestIndex: number;
+  deviceToken: DeviceToken;
+}
+
+/**
+ * デバイスごとのメッセージをsendEachで送信し、デバイスごとの結果を返す
+ * リクエスト自体が失敗した場合は全デバイスの失敗として扱う
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {DeviceSendRequest[]} requests - ユーザーごとの送信内容
+ * @param {PendingDelivery[]} deliveries - 送信するデバイス（500件まで）
+ * @return {Promise<admin.messaging.SendResponse[]>} デバイスごとの結果
+ */
+async function sendEachDelivery(
+  messaging: admin.messaging.Messaging,
+  requests: DeviceSendRequest[],
+  deliveries: PendingDelivery[]
+): Promise<admin.messaging.SendResponse[]> {
+  try {
+    const response = await messaging.sendEach(deliveries.map((delivery) => ({
+      ...requests[delivery.requestIndex].message,
+      token: delivery.deviceToken.token,
+    })));
+    return response.responses;
+  } catch (error) {
+    return deliveries.map(() => ({
+      success: false,
+      error: error as admin.FirebaseError,
+    }));
+  }
+}
+
+/**
+ * 複数ユーザーの全デバイスに、500件ずつsendEachでまとめて通知を送信
+ * 一時的なエラー（FCMの障害・レート制限）のデバイスには指数バックオフで再送し、
+ * 失敗したトークンのうち、無効なものだけを個別に削除する
+ * 全ての送信試行はnotification_logに記録する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {DeviceSendRequest[]} requests - ユーザーごとの送信内容
+ * @return {Promise<DeviceSendResult[]>} ユーザーごとの送信結果（requestsと同じ順）
+ */
+export async function sendToDevicesInBatches(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  requests: DeviceSendRequest[]
+): Promise<DeviceSendResult[]> {
+  const results: DeviceSendResult[] = requests.map((request) => ({
+    tokenCount: request.tokens.length,
+    successCount: 0,
+    failureCount: 0,
+    prunedCount: 0,
+  }));
+  const logEntries: NotificationLogEntry[] = [];
+  const prunePromises: Promise<unknown>[] = [];
+
+  let pending: PendingDelivery[] = [];
+  requests.forEach((request, requestIndex) => {
+    if (request.tokens.length === 0) {
+      logEntries.push({
+        userId: request.userId,
+        type: request.message.data?.type ?? null,
+        status: "no_device",
+        messageId: null,
+        errorCode: null,
+        attempt: 0,
+        willRetry: false,
+        platform: null,
+      });
+      return;
+    }
+    request.tokens.forEach((deviceToken) => {
+      pending.push({requestIndex, deviceToken});
+    });
+  });
+
+  for (let attempt = 1; pending.length > 0; attempt++) {
+    const retryDeliveries: PendingDelivery[] = [];
+
+    for (let i = 0; i < pending.length; i += SEND_EACH_BATCH_SIZE) {
+      const deliveries = pending.slice(i, i + SEND_EACH_BATCH_SIZE);
+      const responses =
+        await sendEachDelivery(messaging, requests, deliveries);
+
+      responses.forEach((res, index) => {
+        const delivery = deliveries[index];
+        const deviceToken = delivery.deviceToken;
+        const {userId, message} = requests[delivery.requestIndex];
+        const result = results[delivery.requestIndex];
+        const type = message.data?.type ?? null;
+
+        if (res.success) {
+          result.successCount++;
+          logEntries.push({
+            userId,
+            type,
+            status: "sent",
+            messageId: res.messageId ?? null,
+            errorCode: null,
+            attempt,
+            willRetry: false,
+            platform: deviceToken.platform,
+          });
+          return;
+        }
+
+        const error = res.error;
+        const errorCode = error?.code;
+        const errorMessage = error?.message;
+        const willRetry =
+          attempt < MAX_SEND_ATTEMPTS && isTransientSendError(errorCode);
+        logEntries.push({
+          userId,
+          type,
+          status: "failed",
+          messageId: null,
+          errorCode: errorCode ?? null,
+          attempt,
+          willRetry,
+          platform: deviceToken.platform,
+        });
+
+        if (willRetry) {
+          retryDeliveries.push(delivery);
+          return;
+        }
+        result.failureCount++;
+
+        if (!shouldPruneToken(error)) {
+          logger.error(
+            `[${userId}] 通知送信エラー`,
+            {errorCode, errorMessage, attempt, platform: deviceToken.platform}
+          );
+          return;
+        }
+
+        if (error && isApnsAuthError(error)) {
+          logger.error(
+            `[${userId}] APNS認証エラー。Firebase ConsoleでAPNS証明書を確認してください`,
+            {errorCode, errorMessage}
+          );
+        } else {
+          logger.warn(`[${userId}] 無効なFCMトークンを削除`, {errorCode});
+        }
+
+        result.prunedCount++;
+        if (deviceToken.ref) {
+          prunePromises.push(deviceToken.ref.delete());
+        } else {
+          prunePromises.push(
+            db.collection("users").doc(userId).update({
+              fcmToken: admin.firestore.FieldValue.delete(),
+            })
+          );
+        }
+      });
+    }
+
+    pending = retryDeliveries;
+    if (pending.length > 0) {
+      const delayMs = getRetryDelayMs(attempt);
+      logger.warn(
+        `一時的なエラーのため再送: ${pending.length}台, ` +
+        `${delayMs}ms後 (attempt=${attempt})`
+      );
+      await sleep(delayMs);
+    }
+  }
+
+  await Promise.all([
+    ...prunePromises,
+    writeNotificationLog(db, logEntries),
+  ]);
+  return results;
+}
+
+/**
+ * ユーザーの全デバイスに通知を送信
+ * 再送・無効なトークンの削除・送信記録はsendToDevicesInBatchesと同じ
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {DeviceMessage} message - 送信メッセージ（トークン以外）
+ * @param {DeviceToken[]} tokens - 取得済みのトークン（省略時は取得する）
+ * @return {Promise<DeviceSendResult>} 送信結果
+ */
+export async function sendToUserDevices(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  userId: string,
+  message: DeviceMessage,
+  tokens?: DeviceToken[]
+): Promise<DeviceSendResult> {
+  const deviceTokens = tokens ?? await getUserDeviceTokens(db, userId);
+  const [result] = await sendToDevicesInBatches(db, messaging, [
+    {userId, message, tokens: deviceTokens},
+  ]);
+  return result;
+}
@@ -0,0 +1,242 @@
+import * as admin from "firebase-admin";
+import {toZonedDateKey} from "./timezone";
+import {isTaskCompleted} from "./taskSchema";
+import {getGroupTimeZone} from "./taskGeneration";
+
+/**
+ * メンバーごとの完了数を保存するサブコレクション
+ * groups/{groupId}/member_stats/{memberId}
+ */
+export const MEMBER_STATS_COLLECTION = "member_stats";
+
+/**
+ * タスクごとに集計済みの完了を保存するコレクション（ドキュメントIDはタスクID）
+ * 反映の方式はtask_stats_entries（taskStats.ts）と同じ
+ */
+export const GROUP_CONTRIBUTION_ENTRIES_COLLECTION =
+  "group_contribution_entries";
+
+/**
+ * 1件のグループタスクの完了の集計内容
+ */
+interface ContributionEntry {
+  groupId: string;
+  memberId: string;
+  // テンプレートのないタスクは"none"
+  templateId: string;
+  // 完了した月（グループのタイムゾーン、YYYY-MM）
+  monthKey: string;
+}
+
+/**
+ * メンバーの完了数
+ */
+export interface MemberContribution {
+  memberId: string;
+  completedCount: number;
+  // テンプレートIDごとの完了数
+  byTemplate: Record<string, number>;
+  // 月（YYYY-MM）ごとの完了数
+  byMonth: Record<string, number>;
+}
+
+/**
+ * テンプレートのないタスクの集計キー
+ */
+const NO_TEMPLATE_KEY = "none";
+
+/**
+ * 完了した月の日付キー（YYYY-MM）を作成
+ * @param {admin.firestore.DocumentData} data - タスクのデータ
+ * @param {string} timeZone - グループのタイムゾーン
+ * @return {string} 月の日付キー
+ */
+function getCompletedMonthKey(
+  data: admin.firestore.DocumentData,
+  timeZone: string
+): string {
+  const completedAt = (data.completedAt ?? data.groupCompletedAt) as
+    admin.firestore.Timestamp | null | undefined;
+  const scheduledDate = data.scheduledDate as admin.firestore.Timestamp;
+  return toZonedDateKey(
+    (completedAt ?? scheduledDate).toDate(),
+    timeZone
+  ).slice(0, 7);
+}
+
+/**
+ * グループタスクの完了の集計内容を作成
+ * 完了したメンバーが分からないタスク・論理削除したタスクは数えない
+ * @param {admin.firestore.DocumentData | undefined} data - タスクのデータ
+ * @param {string} timeZone - グループのタイムゾーン
+ * @return {ContributionEntry | null} 集計内容（数えない場合はnull）
+ */
+function buildContributionEntry(
+  data: admin.firestore.DocumentData | undefined,
+  timeZone: string
+): ContributionEntry | null {
+  if (
+    !data?.groupId ||
+    !data.completedByMemberId ||
+    !data.scheduledDate ||
+    data.isDeleted === true ||
+    !isTaskCompleted(data)
+  ) {
+    return null;
+  }
+  return {
+    groupId: data.groupId,
+    memberId: data.completedByMemberId,
+    templateId: data.templateId || NO_TEMPLATE_KEY,
+    monthKey: getCompletedMonthKey(data, timeZone),
+  };
+}
+
+/**
+ * 2つの集計内容が同じかどうかを判定
+ * @param {ContributionEntry | null} a - 集計内容A
+ * @param {ContributionEntry | null} b - 集計内容B
+ * @return {boolean} 同じ場合true
+ */
+function isSameEntry(
+  a: ContributionEntry | null,
+  b: ContributionEntry | null
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.groupId === b.groupId &&
+    a.memberId === b.memberId &&
+    a.templateId === b.templateId &&
+    a.monthKey === b.monthKey;
+}
+
+/**
+ * グループタスクの現在の内容をメンバーごとの完了数に反映
+ * 前回の集計内容を取り消してから今回の内容を加算するため、完了の取り消し・完了者の変更も反映する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} taskId - タスクID
+ * @param {string} groupId - タスクのグループID（完了した月の判定に使う）
+ * @return {Promise<boolean>} 完了数を更新した場合true
+ */
+export async function applyGroupContribution(
+  db: admin.firestore.Firestore,
+  taskId: string,
+  groupId: string
+): Promise<boolean> {
+  const taskRef = db.collection("tasks").doc(taskId);
+  const entryRef =
+    db.collection(GROUP_CONTRIBUTION_ENTRIES_COLLECTION).doc(taskId);
+  const timeZone = await getGroupTimeZone(db, groupId);
+
+  return db.runTransaction(async (transaction) => {
+    const [taskDoc, entryDoc] = await transaction.getAll(taskRef, entryRef);
+    const previous = entryDoc.exists ?
+      entryDoc.data() as ContributionEntry :
+      null;
+    const next = buildContributionEntry(taskDoc.data(), timeZone);
+    if (isSameEntry(previous, next)) {
+      return false;
+    }
+
+    const memberRef = (entry: ContributionEntry) => db
+      .collection("groups")
+      .doc(entry.groupId)
+      .collection(MEMBER_STATS_COLLECTION)
+      .doc(entry.memberId);
+    const increment = (entry: ContributionEntry, value: number) => {
+      transaction.set(memberRef(entry), {
+        memberId: entry.memberId,
+        completedCount: admin.firestore.FieldValue.increment(value),
+        byTemplate: {
+          [entry.templateId]: admin.firestore.FieldValue.increment(value),
+        },
+        byMonth: {
+          [entry.monthKey]: admin.firestore.FieldValue.increment(value),
+        },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+    };
+
+    if (previous && next &&
+      previous.groupId === next.groupId &&
+      previous.memberId === next.memberId) {
+      // 同じメンバーのドキュメントへの書き込みは1回にまとめる
+      // 空のマップをmergeで書き込むとフィールド全体が置き換わるため、変わった内訳だけを含める
+      const byTemplate: admin.firestore.DocumentData = {};
+      const byMonth: admin.firestore.DocumentData = {};
+      if (previous.templateId !== next.templateId) {
+        byTemplate[previous.templateId] =
+          admin.firestore.FieldValue.increment(-1);
+        byTemplate[next.templateId] = admin.firestore.FieldValue.increment(1);
+      }
+      if (previous.monthKey !== next.monthKey) {
+        byMonth[previous.monthKey] = admin.firestore.FieldValue.increment(-1);
+        byMonth[next.monthKey] = admin.firestore.FieldValue.increment(1);
+      }
+      transaction.set(memberRef(next), {
+        ...(Object.keys(byTemplate).length > 0 ? {byTemplate} : {}),
+        ...(Object.keys(byMonth).length > 0 ? {byMonth} : {}),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+    } else {
+      if (previous) {
+        increment(previous, -1);
+      }
+      if (next) {
+        increment(next, 1);
+      }
+    }
+
+    if (next) {
+      transaction.set(entryRef, {
+        ...next,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else {
+      transaction.delete(entryRef);
+    }
+    return true;
+  });
+}
+
+/**
+ * グループのメンバーごとの完了数を取得
+ * 完了数が0になったメンバー・0件の内訳は含めない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} groupId - グループID
+ * @param {string | undefined} monthKey - 指定した月（YYYY-MM）の完了数で並べる場合
+ * @return {Promise<MemberContribution[]>} 完了数の多い順
+ */
+export async function getGroupContributions(
+  db: admin.firestore.Firestore,
+  groupId: string,
+  monthKey?: string
+): Promise<MemberContribution[]> {
+  const snapshot = await db
+    .collection("groups")
+    .doc(groupId)
+    .collection(MEMBER_STATS_COLLECTION)
+    .get();
+
+  const nonZero = (counts: Record<string, number> | undefined) =>
+    Object.fromEntries(
+      Object.entries(counts ?? {}).filter(([, count]) => count > 0)
+    );
+  const contributions = snapshot.docs
+    .map((doc) => {
+      const data = doc.data();
+      return {
+        memberId: doc.id,
+        completedCount: (data.completedCount as number | undefined) ?? 0,
+        byTemplate: nonZero(data.byTemplate),
+        byMonth: nonZero(data.byMonth),
+      };
+    })
+    .filter((contribution) => contribution.completedCount > 0);
+
+  const sortKey = (contribution: MemberContribution) => monthKey ?
+    contribution.byMonth[monthKey] ?? 0 :
+    contribution.completedCount;
+  return contributions.sort((a, b) => sortKey(b) - sortKey(a));
+}
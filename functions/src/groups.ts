@@ -0,0 +1,109 @@
+import * as admin from "firebase-admin";
+
+/**
+ * グループ内の役割（lib/models/group_role.dart の GroupRole に対応）
+ */
+export type GroupRole = "owner" | "admin" | "member";
+
+/**
+ * グループ内でのユーザーの役割を取得
+ * memberRoles方式とmemberIds方式（旧形式）の両方に対応する
+ * @param {admin.firestore.DocumentData | undefined} groupData - グループ
+ * @param {string} userId - ユーザーID
+ * @return {GroupRole | null} 役割（メンバーでない場合はnull）
+ */
+export function getGroupRole(
+  groupData: admin.firestore.DocumentData | undefined,
+  userId: string
+): GroupRole | null {
+  if (!groupData) {
+    return null;
+  }
+  const memberRoles = groupData.memberRoles as
+    Record<string, string> | undefined;
+  if (memberRoles && userId in memberRoles) {
+    const role = memberRoles[userId];
+    return role === "owner" || role === "admin" ? role : "member";
+  }
+  const memberIds = groupData.memberIds as string[] | undefined;
+  if (memberIds?.includes(userId)) {
+    return groupData.ownerId === userId ? "owner" : "member";
+  }
+  return null;
+}
+
+/**
+ * グループのメンバーかどうかを判定
+ * @param {admin.firestore.DocumentData | undefined} groupData - グループ
+ * @param {string} userId - ユーザーID
+ * @return {boolean} メンバーの場合true
+ */
+export function isGroupMember(
+  groupData: admin.firestore.DocumentData | undefined,
+  userId: string
+): boolean {
+  return getGroupRole(groupData, userId) !== null;
+}
+
+/**
+ * グループの管理権限（オーナー・管理者）があるかを判定
+ * @param {admin.firestore.DocumentData | undefined} groupData - グループ
+ * @param {string} userId - ユーザーID
+ * @return {boolean} 管理権限がある場合true
+ */
+export function canManageGroup(
+  groupData: admin.firestore.DocumentData | undefined,
+  userId: string
+): boolean {
+  const role = getGroupRole(groupData, userId);
+  return role === "owner" || role === "admin";
+}
+
+/**
+ * グループの全メンバーのユーザーIDを取得
+ * memberRoles方式とmemberIds方式（旧形式）の両方に対応する
+ * @param {admin.firestore.DocumentData | undefined} groupData - グループ
+ * @return {string[]} ユーザーIDのリスト
+ */
+export function getGroupMemberIds(
+  groupData: admin.firestore.DocumentData | undefined
+): string[] {
+  if (!groupData) {
+    return [];
+  }
+  const memberIds = new Set<string>(
+    (groupData.memberIds as string[] | undefined) ?? []
+  );
+  Object.keys(
+    (groupData.memberRoles as Record<string, string> | undefined) ?? {}
+  ).forEach((userId) => memberIds.add(userId));
+  return Array.from(memberIds);
+}
+
+/**
+ * ユーザーが所属する有効なグループを取得
+ * memberIds（旧形式）とmemberRolesのどちらかにユーザーが含まれるグループを対象にする
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @return {Promise<admin.firestore.QueryDocumentSnapshot[]>} グループ
+ */
+export async function getUserGroups(
+  db: admin.firestore.Firestore,
+  userId: string
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const groups = db.collection("groups");
+  const [byMemberIds, byMemberRoles] = await Promise.all([
+    groups.where("memberIds", "array-contains", userId).get(),
+    groups
+      .where(`memberRoles.${userId}`, "in", ["owner", "admin", "member"])
+      .get(),
+  ]);
+
+  const groupDocs = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  [...byMemberIds.docs, ...byMemberRoles.docs].forEach((doc) => {
+    if (doc.data().isActive !== false) {
+      groupDocs.set(doc.id, doc);
+    }
+  });
+  return Array.from(groupDocs.values());
+}
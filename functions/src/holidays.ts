@@ -0,0 +1,258 @@
+/**
+ * 日本の祝日計算（オフライン）
+ * 「国民の祝日に関する法律」に基づき、外部APIなしで祝日を判定する
+ * 春分・秋分の日は天文計算の近似式（1980〜2099年で有効）を使用
+ * 日付はサーバーローカルの0時で表現したカレンダー上の日付として扱う
+ */
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/**
+ * 月日キー（M-D）を作成
+ * @param {number} month - 月（1〜12）
+ * @param {number} day - 日
+ * @return {string} 月日キー
+ */
+function monthDayKey(month: number, day: number): string {
+  return `${month}-${day}`;
+}
+
+/**
+ * 第n月曜日の日付を取得（ハッピーマンデー制度）
+ * @param {number} year - 年
+ * @param {number} month - 月（1〜12）
+ * @param {number} nth - 第n週
+ * @return {number} 日
+ */
+function nthMonday(year: number, month: number, nth: number): number {
+  const firstWeekday = new Date(year, month - 1, 1).getDay();
+  const firstMonday = 1 + ((8 - firstWeekday) % 7);
+  return firstMonday + (nth - 1) * 7;
+}
+
+/**
+ * 春分日を計算
+ * @param {number} year - 年
+ * @return {number} 3月の日
+ */
+export function vernalEquinoxDay(year: number): number {
+  return Math.floor(
+    20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4)
+  );
+}
+
+/**
+ * 秋分日を計算
+ * @param {number} year - 年
+ * @return {number} 9月の日
+ */
+export function autumnalEquinoxDay(year: number): number {
+  return Math.floor(
+    23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4)
+  );
+}
+
+/**
+ * 振替休日・国民の休日を除く、法律で定められた祝日を取得
+ * @param {number} year - 年
+ * @return {Map<string, string>} 月日キーと祝日名
+ */
+function getStatutoryHolidays(year: number): Map<string, string> {
+  const holidays = new Map<string, string>();
+  const add = (month: number, day: number, name: string) => {
+    holidays.set(monthDayKey(month, day), name);
+  };
+
+  add(1, 1, "元日");
+  if (year >= 2000) {
+    add(1, nthMonday(year, 1, 2), "成人の日");
+  } else {
+    add(1, 15, "成人の日");
+  }
+  add(2, 11, "建国記念の日");
+  if (year >= 2020) {
+    add(2, 23, "天皇誕生日");
+  }
+  add(3, vernalEquinoxDay(year), "春分の日");
+  add(4, 29, year >= 2007 ? "昭和の日" : "みどりの日");
+  add(5, 3, "憲法記念日");
+  if (year >= 2007) {
+    add(5, 4, "みどりの日");
+  }
+  add(5, 5, "こどもの日");
+
+  // 海の日（2020・2021年は東京オリンピックによる特例）
+  if (year === 2020) {
+    add(7, 23, "海の日");
+  } else if (year === 2021) {
+    add(7, 22, "海の日");
+  } else if (year >= 2003) {
+    add(7, nthMonday(year, 7, 3), "海の日");
+  } else if (year >= 1996) {
+    add(7, 20, "海の日");
+  }
+
+  // 山の日（2020・2021年は特例）
+  if (year === 2020) {
+    add(8, 10, "山の日");
+  } else if (year === 2021) {
+    add(8, 8, "山の日");
+  } else if (year >= 2016) {
+    add(8, 11, "山の日");
+  }
+
+  if (year >= 2003) {
+    add(9, nthMonday(year, 9, 3), "敬老の日");
+  } else {
+    add(9, 15, "敬老の日");
+  }
+  add(9, autumnalEquinoxDay(year), "秋分の日");
+
+  // スポーツの日（2019年までは体育の日、2020・2021年は特例）
+  if (year === 2020) {
+    add(7, 24, "スポーツの日");
+  } else if (year === 2021) {
+    add(7, 23, "スポーツの日");
+  } else if (year >= 2000) {
+    add(10, nthMonday(year, 10, 2), year >= 2020 ? "スポーツの日" : "体育の日");
+  } else {
+    add(10, 10, "体育の日");
+  }
+
+  add(11, 3, "文化の日");
+  add(11, 23, "勤労感謝の日");
+  if (year >= 1989 && year <= 2018) {
+    add(12, 23, "天皇誕生日");
+  }
+
+  // 皇室行事による一度限りの祝日
+  if (year === 2019) {
+    add(5, 1, "天皇の即位の日");
+    add(10, 22, "即位礼正殿の儀の行われる日");
+  }
+
+  return holidays;
+}
+
+/**
+ * 指定年の祝日一覧を取得（振替休日・国民の休日を含む）
+ * @param {number} year - 年
+ * @return {Map<string, string>} 月日キー（M-D）と祝日名
+ */
+export function getJapaneseHolidays(year: number): Map<string, string> {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays = getStatutoryHolidays(year);
+  const isStatutory = (date: Date) =>
+    date.getFullYear() === year &&
+    holidays.has(monthDayKey(date.getMonth() + 1, date.getDate()));
+
+  // 国民の休日: 祝日に挟まれた平日（日曜以外）
+  const sandwiched: Date[] = [];
+  for (let d = new Date(year, 0, 2); d.getFullYear() === year;
+    d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) {
+    const prev = new Date(d.getFullYear(), d.getMonth(), d.getDate() - 1);
+    const next = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1);
+    if (
+      d.getDay() !== 0 &&
+      !isStatutory(d) &&
+      isStatutory(prev) &&
+      isStatutory(next)
+    ) {
+      sandwiched.push(d);
+    }
+  }
+  sandwiched.forEach((d) => {
+    holidays.set(monthDayKey(d.getMonth() + 1, d.getDate()), "国民の休日");
+  });
+
+  // 振替休日: 日曜の祝日の後、最初の祝日でない日（2007年以降）
+  // 2006年以前は翌月曜のみ
+  const sundayHolidays = Array.from(holidays.keys())
+    .map((key) => {
+      const [month, day] = key.split("-").map(Number);
+      return new Date(year, month - 1, day);
+    })
+    .filter((d) => d.getDay() === 0);
+  for (const sunday of sundayHolidays) {
+    const substitute = new Date(
+      sunday.getFullYear(),
+      sunday.getMonth(),
+      sunday.getDate() + 1
+    );
+    if (year >= 2007) {
+      while (
+        holidays.has(
+          monthDayKey(substitute.getMonth() + 1, substitute.getDate())
+        )
+      ) {
+        substitute.setDate(substitute.getDate() + 1);
+      }
+    } else if (
+      holidays.has(monthDayKey(substitute.getMonth() + 1, substitute.getDate()))
+    ) {
+      continue;
+    }
+    // 年をまたぐ振替は翌年側の計算に含めない（12/31が日曜の祝日にはならない）
+    if (substitute.getFullYear() === year) {
+      holidays.set(
+        monthDayKey(substitute.getMonth() + 1, substitute.getDate()),
+        "振替休日"
+      );
+    }
+  }
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * 祝日名を取得
+ * @param {Date} date - カレンダー上の日付
+ * @return {string | null} 祝日名（祝日でない場合はnull）
+ */
+export function getJapaneseHolidayName(date: Date): string | null {
+  return getJapaneseHolidays(date.getFullYear())
+    .get(monthDayKey(date.getMonth() + 1, date.getDate())) ?? null;
+}
+
+/**
+ * 日本の祝日かどうかを判定
+ * @param {Date} date - カレンダー上の日付
+ * @return {boolean} 祝日の場合true
+ */
+export function isJapaneseHoliday(date: Date): boolean {
+  return getJapaneseHolidayName(date) !== null;
+}
+
+/**
+ * 営業日（土日・祝日以外）かどうかを判定
+ * @param {Date} date - カレンダー上の日付
+ * @return {boolean} 営業日の場合true
+ */
+export function isBusinessDay(date: Date): boolean {
+  const weekday = date.getDay();
+  return weekday !== 0 && weekday !== 6 && !isJapaneseHoliday(date);
+}
+
+/**
+ * 指定方向で最も近い営業日を取得（指定日は含まない）
+ * @param {Date} date - 基準日
+ * @param {number} direction - 1=翌営業日, -1=前営業日
+ * @return {Date} 営業日
+ */
+export function findBusinessDay(date: Date, direction: 1 | -1): Date {
+  const result = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + direction
+  );
+  // 年末年始や大型連休でも最大でも数日で見つかる
+  for (let i = 0; i < 30 && !isBusinessDay(result); i++) {
+    result.setDate(result.getDate() + direction);
+  }
+  return result;
+}
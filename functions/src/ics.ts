@@ -0,0 +1,261 @@
+/**
+ * iCalendar（RFC 5545）形式の組み立てユーティリティ
+ * 日付のみの値はサーバーローカルの0時で表現したカレンダー上の日付として扱う
+ */
+
+/**
+ * PRODIDに使う製品識別子
+ */
+export const ICS_PRODUCT_ID = "-//oshirase-kun//Tasks//JA";
+
+/**
+ * UIDのドメイン部分
+ */
+export const ICS_UID_DOMAIN = "oshirase-kun";
+
+/**
+ * コンポーネント（VEVENT・VTODOなど）のプロパティ行
+ * 例: ["DTSTART;VALUE=DATE", "20250101"]
+ */
+export type IcsProperty = [name: string, value: string];
+
+/**
+ * コンポーネント
+ */
+export interface IcsComponent {
+  type: "VEVENT" | "VTODO";
+  properties: IcsProperty[];
+}
+
+/**
+ * TEXT型の値をエスケープ
+ * @param {string} text - テキスト
+ * @return {string} エスケープ後のテキスト
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * 75オクテットを超える行を折り返す
+ * マルチバイト文字の途中では折り返さない
+ * @param {string} line - 1行分のコンテンツ
+ * @return {string} 折り返し後の行（CRLF区切り）
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // 継続行は先頭の空白1オクテットを含めて75オクテット以内
+  let maxBytes = 75;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, "utf8");
+    if (currentBytes + bytes > maxBytes) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      maxBytes = 74;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * DATE型の値（YYYYMMDD）を作成
+ * @param {Date} date - カレンダー上の日付
+ * @return {string} DATE型の値
+ */
+export function formatIcsDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}${month}${day}`;
+}
+
+/**
+ * UTCのDATE-TIME型の値（YYYYMMDDTHHMMSSZ）を作成
+ * @param {Date} date - 日時
+ * @return {string} DATE-TIME型の値
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * VCALENDARを組み立てる
+ * @param {string} name - カレンダー名（X-WR-CALNAME）
+ * @param {string} timeZone - カレンダーのIANAタイムゾーン（X-WR-TIMEZONE）
+ * @param {IcsComponent[]} components - コンポーネント
+ * @return {string} iCalendar形式の文字列（CRLF区切り）
+ */
+export function buildCalendar(
+  name: string,
+  timeZone: string,
+  components: IcsComponent[]
+): string {
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+
+  components.forEach((component) => {
+    lines.push(`BEGIN:${component.type}`);
+    component.properties.forEach(([propName, value]) => {
+      lines.push(`${propName}:${value}`);
+    });
+    lines.push(`END:${component.type}`);
+  });
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * 解析済みのプロパティ
+ */
+export interface IcsParsedProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * 解析済みのコンポーネント（ネストしたVALARMなどは含まない）
+ */
+export interface IcsParsedComponent {
+  type: string;
+  properties: IcsParsedProperty[];
+}
+
+/**
+ * TEXT型の値のエスケープを解除
+ * @param {string} value - エスケープされた値
+ * @return {string} テキスト
+ */
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * コンテンツ行を解析（NAME;PARAM=VALUE:値）
+ * ダブルクォートで囲まれたパラメータ値内の「:」「;」は区切りとみなさない
+ * @param {string} line - 折り返し解除済みの1行
+ * @return {IcsParsedProperty | null} プロパティ（形式が不正な場合はnull）
+ */
+function parseContentLine(line: string): IcsParsedProperty | null {
+  const segments: string[] = [];
+  let current = "";
+  let quoted = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\"") {
+      quoted = !quoted;
+    } else if (!quoted && char === ";") {
+      segments.push(current);
+      current = "";
+      continue;
+    } else if (!quoted && char === ":") {
+      valueStart = i + 1;
+      break;
+    }
+    current += char;
+  }
+  if (valueStart < 0) {
+    return null;
+  }
+  segments.push(current);
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const eq = param.indexOf("=");
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] =
+        param.slice(eq + 1).replace(/^"(.*)"$/, "$1");
+    }
+  });
+
+  return {name: name.toUpperCase(), params, value: line.slice(valueStart)};
+}
+
+/**
+ * iCalendar形式の文字列からVEVENT・VTODOを取り出す
+ * @param {string} text - iCalendar形式の文字列
+ * @return {IcsParsedComponent[]} コンポーネント
+ */
+export function parseCalendar(text: string): IcsParsedComponent[] {
+  // 行の折り返し（CRLF + 空白1文字）を解除
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const components: IcsParsedComponent[] = [];
+  const stack: string[] = [];
+  let current: IcsParsedComponent | null = null;
+
+  for (const line of lines) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    const property = parseContentLine(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === "BEGIN") {
+      const type = property.value.trim().toUpperCase();
+      stack.push(type);
+      if (
+        (type === "VEVENT" || type === "VTODO") &&
+        stack.length === 2 &&
+        stack[0] === "VCALENDAR"
+      ) {
+        current = {type, properties: []};
+      }
+      continue;
+    }
+    if (property.name === "END") {
+      const type = stack.pop();
+      if (current && type === current.type && stack.length === 1) {
+        components.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    // VALARMなどネストしたコンポーネントのプロパティは無視
+    if (current && stack.length === 2) {
+      current.properties.push(property);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * 指定名のプロパティを取得（複数ある場合は最初のもの）
+ * @param {IcsParsedComponent} component - コンポーネント
+ * @param {string} name - プロパティ名
+ * @return {IcsParsedProperty | undefined} プロパティ
+ */
+export function getIcsProperty(
+  component: IcsParsedComponent,
+  name: string
+): IcsParsedProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
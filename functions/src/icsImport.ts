@@ -0,0 +1,278 @@
+import {RepeatType} from "./types";
+import {toZonedCalendarDate} from "./timezone";
+import {
+  RRuleParseError,
+  RecurrenceRule,
+  expandRecurrence,
+  formatDateKey,
+  formatRuleValue,
+  parseICalDate,
+  parseRuleValue,
+} from "./rrule";
+import {
+  IcsParsedComponent,
+  IcsParsedProperty,
+  formatIcsDate,
+  getIcsProperty,
+  parseCalendar,
+  unescapeIcsText,
+} from "./ics";
+
+/**
+ * rruleフィールドの最大長（firestore.rulesのバリデーションと同じ）
+ */
+const MAX_RRULE_LENGTH = 2000;
+
+/**
+ * インポートで作成するテンプレートの内容
+ */
+export interface PlannedTemplate {
+  // VEVENTのUID（再インポート時の重複防止に使う）
+  uid: string | null;
+  title: string;
+  description: string;
+  // DTSTART・RRULE・EXDATEを含む繰り返し定義
+  rrule: string;
+  // アプリでの表示用（rruleが優先される）
+  repeatType: RepeatType;
+  selectedWeekdays: number[] | null;
+  monthlyDay: number | null;
+}
+
+/**
+ * インポートできなかったイベント
+ */
+export interface UnsupportedEvent {
+  uid: string | null;
+  title: string;
+  reason: string;
+}
+
+/**
+ * インポート計画
+ */
+export interface IcsImportPlan {
+  templates: PlannedTemplate[];
+  unsupported: UnsupportedEvent[];
+}
+
+/**
+ * 日付・日時プロパティをカレンダー上の日付に変換
+ * UTC（末尾Z）の日時はtimeZoneの日付に、それ以外は記載どおりの日付にする
+ * @param {IcsParsedProperty} property - DTSTART・EXDATEなど
+ * @param {string} value - 値（EXDATEのカンマ区切りの1要素など）
+ * @param {string} timeZone - インポート先のIANAタイムゾーン
+ * @return {Date} カレンダー上の日付
+ */
+function parseEventDate(
+  property: IcsParsedProperty,
+  value: string,
+  timeZone: string
+): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/
+    .exec(value.trim());
+  if (match && !property.params.TZID) {
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return toZonedCalendarDate(
+      new Date(Date.UTC(year, month - 1, day, hour, minute, second)),
+      timeZone
+    );
+  }
+  return parseICalDate(value);
+}
+
+/**
+ * RRULEに対応する旧形式のrepeatTypeを推定（アプリでの表示用）
+ * 対応する形式がない場合はNONE（生成はrruleで行われる）
+ * @param {RecurrenceRule} rule - 繰り返しルール
+ * @param {Date} dtstart - 開始日
+ * @return {Object} repeatTypeと曜日・日付の指定
+ */
+function inferRepeatType(
+  rule: RecurrenceRule,
+  dtstart: Date
+): Pick<PlannedTemplate, "repeatType" | "selectedWeekdays" | "monthlyDay"> {
+  const none = {selectedWeekdays: null, monthlyDay: null};
+  const simple = rule.interval === 1 && rule.count !== 1 &&
+    !rule.byMonth && !rule.bySetPos;
+
+  if (!simple) {
+    return {repeatType: RepeatType.NONE, ...none};
+  }
+
+  if (rule.freq === "DAILY" && !rule.byDay && !rule.byMonthDay) {
+    return {repeatType: RepeatType.DAILY, ...none};
+  }
+
+  const hasOrdinal = rule.byDay?.some((d) => d.ordinal !== undefined);
+  if (rule.freq === "WEEKLY" && !rule.byMonthDay && !hasOrdinal) {
+    // 1=月曜, 7=日曜
+    const weekdays = rule.byDay ?
+      rule.byDay.map((d) => d.weekday === 0 ? 7 : d.weekday) :
+      [dtstart.getDay() === 0 ? 7 : dtstart.getDay()];
+    return {
+      repeatType: RepeatType.CUSTOM_WEEKLY,
+      selectedWeekdays: Array.from(new Set(weekdays)).sort((a, b) => a - b),
+      monthlyDay: null,
+    };
+  }
+
+  if (rule.freq === "MONTHLY" && !rule.byDay) {
+    const days = rule.byMonthDay ?? [dtstart.getDate()];
+    if (days.length === 1 && days[0] === -1) {
+      return {repeatType: RepeatType.MONTHLY_LAST_DAY, ...none};
+    }
+    if (days.length === 1 && days[0] > 0) {
+      return {
+        repeatType: RepeatType.MONTHLY,
+        selectedWeekdays: null,
+        monthlyDay: days[0],
+      };
+    }
+  }
+
+  return {repeatType: RepeatType.NONE, ...none};
+}
+
+/**
+ * VEVENTをテンプレートの内容に変換
+ * @param {IcsParsedComponent} event - VEVENT
+ * @param {string} timeZone - インポート先のIANAタイムゾーン
+ * @param {Date} today - 今日（カレンダー上の日付）
+ * @return {PlannedTemplate | string} テンプレート（未対応の場合は理由）
+ */
+function planEvent(
+  event: IcsParsedComponent,
+  timeZone: string,
+  today: Date
+): PlannedTemplate | string {
+  const uid = getIcsProperty(event, "UID")?.value.trim() || null;
+  const title = unescapeIcsText(getIcsProperty(event, "SUMMARY")?.value ?? "")
+    .trim();
+  const description =
+    unescapeIcsText(getIcsProperty(event, "DESCRIPTION")?.value ?? "").trim();
+
+  if (!title) {
+    return "タイトル（SUMMARY）がありません";
+  }
+  if (getIcsProperty(event, "STATUS")?.value.toUpperCase() === "CANCELLED") {
+    return "キャンセルされた予定です";
+  }
+  if (getIcsProperty(event, "RECURRENCE-ID")) {
+    return "繰り返し予定の個別の変更（RECURRENCE-ID）は未対応です";
+  }
+  if (getIcsProperty(event, "RDATE")) {
+    return "RDATEによる追加日は未対応です";
+  }
+  const rrules = event.properties.filter((p) => p.name === "RRULE");
+  if (rrules.length > 1) {
+    return "複数のRRULEは未対応です";
+  }
+  const dtstartProperty = getIcsProperty(event, "DTSTART");
+  if (!dtstartProperty) {
+    return "開始日（DTSTART）がありません";
+  }
+
+  let dtstart: Date;
+  let rule: RecurrenceRule;
+  const exdates = new Set<string>();
+  try {
+    dtstart = parseEventDate(
+      dtstartProperty,
+      dtstartProperty.value,
+      timeZone
+    );
+    // RRULEがない単発の予定は1回だけの繰り返しとして扱う
+    rule = rrules.length === 1 ?
+      parseRuleValue(rrules[0].value) :
+      {freq: "DAILY", interval: 1, wkst: 1, count: 1};
+    event.properties
+      .filter((p) => p.name === "EXDATE")
+      .forEach((p) => {
+        p.value.split(",").forEach((value) => {
+          exdates.add(formatDateKey(parseEventDate(p, value, timeZone)));
+        });
+      });
+  } catch (error) {
+    if (error instanceof RRuleParseError) {
+      return error.message;
+    }
+    throw error;
+  }
+
+  // 今後の発生日がない（終了済み・過去の単発予定）場合は作成しない
+  const [next] = expandRecurrence(
+    {dtstart, rule, exdates},
+    dtstart,
+    today,
+    new Date(today.getFullYear() + 10, today.getMonth(), today.getDate()),
+    1
+  );
+  if (!next) {
+    return "今後の予定がありません";
+  }
+
+  const lines = [
+    `DTSTART;VALUE=DATE:${formatIcsDate(dtstart)}`,
+    `RRULE:${formatRuleValue(rule)}`,
+  ];
+  if (exdates.size > 0) {
+    lines.push(
+      "EXDATE;VALUE=DATE:" +
+      Array.from(exdates).sort().map((key) => key.replace(/-/g, "")).join(",")
+    );
+  }
+  const rrule = lines.join("\n");
+  if (rrule.length > MAX_RRULE_LENGTH) {
+    return "繰り返し定義が長すぎます（EXDATEが多すぎます）";
+  }
+
+  return {
+    uid,
+    title,
+    description,
+    rrule,
+    ...inferRepeatType(rule, dtstart),
+  };
+}
+
+/**
+ * iCalendar形式の文字列からテンプレートの作成計画を立てる
+ * 同じUIDのVEVENTは最初のもののみを対象にする
+ * @param {string} text - iCalendar形式の文字列
+ * @param {string} timeZone - インポート先のIANAタイムゾーン
+ * @return {IcsImportPlan} インポート計画
+ */
+export function planIcsImport(text: string, timeZone: string): IcsImportPlan {
+  const today = toZonedCalendarDate(new Date(), timeZone);
+  const plan: IcsImportPlan = {templates: [], unsupported: []};
+  const seenUids = new Set<string>();
+
+  parseCalendar(text).forEach((component) => {
+    const uid = getIcsProperty(component, "UID")?.value.trim() || null;
+    const title =
+      unescapeIcsText(getIcsProperty(component, "SUMMARY")?.value ?? "").trim();
+
+    if (component.type !== "VEVENT") {
+      plan.unsupported.push({uid, title, reason: "VEVENT以外は未対応です"});
+      return;
+    }
+
+    const result = planEvent(component, timeZone, today);
+    if (typeof result === "string") {
+      // RECURRENCE-IDの個別変更は親の予定と同じUIDを持つため、重複判定より先に記録
+      plan.unsupported.push({uid, title, reason: result});
+      return;
+    }
+    if (uid && seenUids.has(uid)) {
+      plan.unsupported.push({uid, title, reason: "UIDが重複しています"});
+      return;
+    }
+    if (uid) {
+      seenUids.add(uid);
+    }
+    plan.templates.push(result);
+  });
+
+  return plan;
+}
@@ -1,64 +1,106 @@
 import {setGlobalOptions} from "firebase-functions";
 import {onSchedule} from "firebase-functions/v2/scheduler";
-import {onDocumentUpdated} from "firebase-functions/v2/firestore";
-import {onCall, HttpsError} from "firebase-functions/v2/https";
+import {
+  onDocumentDeleted,
+  onDocumentUpdated,
+  onDocumentWritten,
+} from "firebase-functions/v2/firestore";
+import {
+  onCall,
+  onRequest,
+  HttpsError,
+  CallableRequest,
+} from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
+import {
+  DEFAULT_TIME_ZONE,
+  calendarDateToZonedMidnight,
+  getZonedParts,
+  resolveTimeZone,
+  toZonedCalendarDate,
+  toZonedDateKey,
+} from "./timezone";
+import {formatMessage, resolveLocale} from "./messages";
+import {RepeatType, ScheduleTemplateData, TaskData} from "./types";
+import {
+  calculateNextCompletionBasedDate,
+  hasRecurrence,
+  isCompletionBasedRecurrence,
+} from "./recurrence";
+import {
+  buildTaskId,
+  generateTemplateTasks,
+  getGroupTimeZone,
+  getUserTimeZone,
+} from "./taskGeneration";
+import {
+  FEED_TOKEN_HASH_FIELD,
+  FeedScope,
+  buildTaskFeed,
+  createFeedToken,
+  verifyFeedToken,
+} from "./calendarFeed";
+import {canManageGroup, getGroupMemberIds, isGroupMember} from "./groups";
+import {planIcsImport} from "./icsImport";
+import {buildReminderFields, dispatchDueReminders} from "./reminders";
+import {NotificationCategory, buildActionData} from "./notificationActions";
+import {deliverDeferredNotifications, deliverOrDefer} from "./quietHours";
+import {getNotificationHistory} from "./notificationLog";
+import {runHourlyDigest} from "./digest";
+import {
+  TaskDeleteReason,
+  getTemplateTimeZone,
+  restoreTemplateTasks,
+  softDeleteTemplateTasks,
+  syncTemplateTasks,
+} from "./templateSync";
+import {
+  TASK_SCHEMA_VERSION,
+  buildTaskDocument,
+  isTaskCompleted,
+  normalizeTaskData,
+} from "./taskSchema";
+import {
+  createAssigneePicker,
+  hasAssigneeRotation,
+  hasRotationChanged,
+  reassignFutureTasks,
+} from "./rotation";
+import {
+  ESCALATION_POLICY_FIELD,
+  MAX_ESCALATION_LEVELS,
+  parseEscalationPolicy,
+  runOverdueEscalation,
+} from "./escalation";
+import {
+  createLegacyMigrationReport,
+  migrateUserLegacySchedules,
+} from "./legacyMigration";
+import {runSummaryDigest} from "./summaryDigest";
+import {
+  MAX_TASK_STATS_DAYS,
+  TASK_STATS_ENTRIES_COLLECTION,
+  TaskStatsScope,
+  applyTaskStats,
+  formatStatsDateKey,
+  getTaskStatsForRange,
+  parseStatsDateKey,
+  resolveStatsRange,
+} from "./taskStats";
+import {
+  applyGroupContribution,
+  getGroupContributions,
+} from "./groupContributions";
 
 admin.initializeApp();
 
 setGlobalOptions({maxInstances: 10, region: "asia-northeast1"});
 
 /**
- * タスクの型定義（新モデル）
- */
-interface TaskData {
-  id: string;
-  userId: string;
-  templateId?: string;
-  title: string;
-  description: string;
-  scheduledDate: admin.firestore.Timestamp;
-  completedAt?: admin.firestore.Timestamp;
-  isGroupTask: boolean;
-  groupId?: string;
-  completedByMemberId?: string;
-  groupCompletedAt?: admin.firestore.Timestamp;
-}
-
-/**
- * スケジュールテンプレートの型定義
- */
-interface ScheduleTemplateData {
-  id: string;
-  userId: string;
-  title: string;
-  description: string;
-  repeatType: string;
-  repeatInterval?: number;
-  selectedWeekdays?: number[];
-  monthlyDay?: number;
-  requiresCompletion: boolean;
-  isActive: boolean;
-  isGroupSchedule: boolean;
-  groupId?: string;
-}
-
-/**
- * 繰り返しタイプの列挙型
- */
-enum RepeatType {
-  NONE = "none",
-  DAILY = "daily",
-  CUSTOM_WEEKLY = "customWeekly",
-  MONTHLY = "monthly",
-  MONTHLY_LAST_DAY = "monthlyLastDay",
-  CUSTOM = "custom",
-}
-
-/**
- * 1時間ごとに実行される通知関数（0-23時）
+ * 1時間ごとに実行される通知関数（日本時間0-23時）
  * 各時刻に通知を設定しているユーザーにのみ通知を送信
+ * timeZoneを設定したユーザーは、そのタイムゾーンの時刻で判定する
  */
 
 // 0時から23時まで、1時間ごとに実行される関数を生成
@@ -72,268 +114,113 @@ for (let hour = 0; hour < 24; hour++) {
       schedule: `0 ${hour} * * *`,
       timeZone: "Asia/Tokyo",
     },
-    async () => {
+    async (event) => {
       logger.info(`[${paddedHour}:00] 通知処理開始`);
-      await sendNotificationForHour(hour);
+      try {
+        await runHourlyDigest(
+          admin.firestore(),
+          admin.messaging(),
+          hour,
+          new Date(event.scheduleTime)
+        );
+      } catch (error) {
+        logger.error(`${hour}時の通知処理エラー:`, error);
+        throw error;
+      }
       logger.info(`[${paddedHour}:00] 通知処理完了`);
     }
   );
 }
 
 /**
- * 指定された時刻に通知を送信する共通関数
- * 最適化: whereクエリで該当ユーザーのみ取得
- * @param {number} hour - 通知を送信する時刻（0-23）
- * @return {Promise<void>}
+ * タスクごとのリマインダー送信（毎分）
+ * テンプレートのremindAt（HH:mm）からタスク生成時に計算した
+ * nextReminderAt（所有者のタイムゾーンでの時刻）を過ぎたタスクに通知する
+ * 完了・削除済みのタスクには送信しない
  */
-async function sendNotificationForHour(hour: number): Promise<void> {
-  const db = admin.firestore();
-  const messaging = admin.messaging();
-
-  try {
-    // 朝の通知が有効で、この時刻に設定しているユーザーを取得
-    const morningUsersPromise = db
-      .collection("users")
-      .where("morningEnabled", "==", true)
-      .where("morningHour", "==", hour)
-      .get();
-
-    // 夜の通知が有効で、この時刻に設定しているユーザーを取得
-    const eveningUsersPromise = db
-      .collection("users")
-      .where("eveningEnabled", "==", true)
-      .where("eveningHour", "==", hour)
-      .get();
-
-    // 並列で取得
-    const [morningUsersSnapshot, eveningUsersSnapshot] = await Promise.all([
-      morningUsersPromise,
-      eveningUsersPromise,
-    ]);
-
-    // 重複を排除してユーザーIDのセットを作成
-    const userIds = new Set<string>();
-    morningUsersSnapshot.docs.forEach((doc) => userIds.add(doc.id));
-    eveningUsersSnapshot.docs.forEach((doc) => userIds.add(doc.id));
-
-    logger.info(`${hour}時: ${userIds.size}人のユーザーに通知送信`);
-
-    if (userIds.size === 0) {
-      return;
-    }
-
-    // 各ユーザーに通知を送信
-    const promises = Array.from(userIds).map((userId) =>
-      sendNotificationToUser(userId, hour, db, messaging)
+export const dispatchTaskReminders = onSchedule(
+  {
+    schedule: "* * * * *",
+    timeZone: "Asia/Tokyo",
+  },
+  async (event) => {
+    const sentCount = await dispatchDueReminders(
+      admin.firestore(),
+      admin.messaging(),
+      new Date(event.scheduleTime)
     );
-    await Promise.all(promises);
-  } catch (error) {
-    logger.error(`${hour}時の通知処理エラー:`, error);
-    throw error;
+    if (sentCount > 0) {
+      logger.info(`[リマインダー] ${sentCount}件送信`);
+    }
   }
-}
+);
 
 /**
- * 個別のユーザーに通知を送信
- * @param {string} userId - ユーザーID
- * @param {number} hour - 通知時刻
- * @param {admin.firestore.Firestore} db - Firestoreインスタンス
- * @param {admin.messaging.Messaging} messaging - FCMインスタンス
- * @return {Promise<void>}
+ * おやすみ時間・ミュート中に保留した通知のまとめ送信（5分ごと）
+ * 再開時刻を過ぎた保留通知を、ユーザーごとに1件の通知にまとめて送信する
  */
-async function sendNotificationToUser(
-  userId: string,
-  hour: number,
-  db: admin.firestore.Firestore,
-  messaging: admin.messaging.Messaging
-): Promise<void> {
-  try {
-    // ユーザーのFCMトークンを取得
-    const userDoc = await db.collection("users").doc(userId).get();
-    const fcmToken = userDoc.data()?.fcmToken;
-
-    if (!fcmToken) {
-      logger.warn(`[${userId}] FCMトークンが見つかりません`);
-      return;
+export const deliverDeferredNotificationSummaries = onSchedule(
+  {
+    schedule: "*/5 * * * *",
+    timeZone: "Asia/Tokyo",
+  },
+  async (event) => {
+    const deliveredUsers = await deliverDeferredNotifications(
+      admin.firestore(),
+      admin.messaging(),
+      new Date(event.scheduleTime)
+    );
+    if (deliveredUsers > 0) {
+      logger.info(`[保留通知] ${deliveredUsers}人にまとめ通知を送信`);
     }
+  }
+);
 
-    // 今日のタスクを取得（新モデル: tasks コレクション）
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    // 今日のタスクを取得（未完了のみ）
-    const todayTasksSnapshot = await db
-      .collection("tasks")
-      .where("userId", "==", userId)
-      .where(
-        "scheduledDate",
-        ">=",
-        admin.firestore.Timestamp.fromDate(today)
-      )
-      .where(
-        "scheduledDate",
-        "<",
-        admin.firestore.Timestamp.fromDate(tomorrow)
-      )
-      .get();
-
-    // 未完了タスクのみカウント
-    const todayCount = todayTasksSnapshot.docs.filter(
-      (doc) => !doc.data().completedAt
-    ).length;
-
-    // 遅延タスクを取得（過去の未完了タスク）
-    const overdueTasksSnapshot = await db
-      .collection("tasks")
-      .where("userId", "==", userId)
-      .where(
-        "scheduledDate",
-        "<",
-        admin.firestore.Timestamp.fromDate(today)
-      )
-      .get();
-
-    // 未完了タスクのみカウント
-    const overdueCount = overdueTasksSnapshot.docs.filter(
-      (doc) => !doc.data().completedAt
-    ).length;
-
-    // 通知メッセージを作成（時間帯によってタイトルと本文を変更）
-    let title = "本日のタスクのお知らせ";
-    let body = "";
-
-    // 時間帯の判定
-    const isMorning = hour >= 5 && hour < 12;
-    const isAfternoon = hour >= 12 && hour < 18;
-    const isEvening = hour >= 18 && hour < 23;
-
-    // タイトルの設定
-    if (isMorning) {
-      title = "おはようございます！";
-    } else if (isAfternoon) {
-      title = "お疲れ様です！";
-    } else if (isEvening) {
-      title = "今日もお疲れ様でした！";
-    }
-
-    // 本文の設定（時間帯別）
-    if (todayCount === 0 && overdueCount === 0) {
-      if (isMorning) {
-        body = "今日のタスクはありません！良い一日を！";
-      } else if (isAfternoon) {
-        body = "今日のタスクはありません！引き続き良い一日を！";
-      } else if (isEvening) {
-        body = "今日のタスクはありません！ゆっくり休んでください！";
-      } else {
-        body = "今日のタスクはありません！";
-      }
-    } else if (todayCount > 0 && overdueCount === 0) {
-      if (isMorning) {
-        body = `今日はタスクが${todayCount}件あります！\n今日も一日頑張りましょう！`;
-      } else if (isAfternoon) {
-        body = `今日はタスクが${todayCount}件あります！\n引き続き頑張りましょう！`;
-      } else if (isEvening) {
-        body = `今日はタスクが${todayCount}件あります！\n残りも頑張りましょう！`;
-      } else {
-        body = `今日はタスクが${todayCount}件あります！`;
-      }
-    } else if (todayCount === 0 && overdueCount > 0) {
-      if (isMorning) {
-        body = `今日は遅延のタスクが${overdueCount}件あります！\n早めに確認しましょう！`;
-      } else if (isAfternoon) {
-        body = `今日は遅延のタスクが${overdueCount}件あります！\n時間があれば確認してみてください！`;
-      } else if (isEvening) {
-        body = `今日は遅延のタスクが${overdueCount}件あります！\n明日の予定に含めましょう！`;
-      } else {
-        body = `今日は遅延のタスクが${overdueCount}件あります！`;
-      }
-    } else {
-      if (isMorning) {
-        body = `今日はタスクが${todayCount}件\n` +
-          `遅延のタスクが${overdueCount}件あります。\n` +
-          "計画的に進めましょう！";
-      } else if (isAfternoon) {
-        body = `今日はタスクが${todayCount}件\n` +
-          `遅延のタスクが${overdueCount}件あります。\n` +
-          "できるところから進めましょう！";
-      } else if (isEvening) {
-        body = `今日はタスクが${todayCount}件\n` +
-          `遅延のタスクが${overdueCount}件あります。\n` +
-          "無理せず進めましょう！";
-      } else {
-        body = `今日はタスクが${todayCount}件\n` +
-          `遅延のタスクが${overdueCount}件あります。`;
-      }
+/**
+ * 遅れているグループタスクのエスカレーション（1時間ごと）
+ * エスカレーション設定が有効なグループで、グループのタイムゾーンの
+ * 設定の時になったら、遅れている日数に応じて担当者・オーナー・管理者に通知する
+ */
+export const escalateOverdueGroupTasks = onSchedule(
+  {
+    schedule: "0 * * * *",
+    timeZone: "Asia/Tokyo",
+    timeoutSeconds: 540,
+  },
+  async (event) => {
+    try {
+      await runOverdueEscalation(
+        admin.firestore(),
+        admin.messaging(),
+        new Date(event.scheduleTime)
+      );
+    } catch (error) {
+      logger.error("[遅延エスカレーション] エラー", error);
     }
+  }
+);
 
-    // FCM通知を送信
-    await messaging.send({
-      token: fcmToken,
-      notification: {
-        title: title,
-        body: body,
-      },
-      data: {
-        type: "scheduled_notification",
-        hour: hour.toString(),
-        todayCount: todayCount.toString(),
-        overdueCount: overdueCount.toString(),
-      },
-      android: {
-        priority: "high",
-        notification: {
-          channelId: "default_channel",
-          priority: "high",
-        },
-      },
-      apns: {
-        payload: {
-          aps: {
-            sound: "default",
-            badge: todayCount + overdueCount,
-          },
-        },
-      },
-    });
-
-    logger.info(`[${userId}] 通知送信成功: ${body}`);
-  } catch (error) {
-    const errorCode = (error as {code?: string}).code;
-    const errorMessage = (error as {message?: string}).message;
-
-    // 無効なトークンの場合は削除
-    if (
-      errorCode === "messaging/invalid-registration-token" ||
-      errorCode === "messaging/registration-token-not-registered"
-    ) {
-      logger.warn(`[${userId}] 無効なFCMトークンを削除`);
-      await db.collection("users").doc(userId).update({
-        fcmToken: admin.firestore.FieldValue.delete(),
-      });
-    } else if (
-      // APNS認証エラーの場合
-      errorCode === "messaging/third-party-auth-error" ||
-      errorMessage?.includes("Auth error from APNS")
-    ) {
-      logger.error(
-        `[${userId}] APNS認証エラー。Firebase ConsoleでAPNS証明書を確認してください`,
-        {errorCode, errorMessage}
-      );
-      // APNS認証エラーの場合もトークンを削除（再登録を促す）
-      await db.collection("users").doc(userId).update({
-        fcmToken: admin.firestore.FieldValue.delete(),
-      });
-    } else {
-      // その他のエラー
-      logger.error(
-        `[${userId}] 通知送信エラー`,
-        {errorCode, errorMessage, error}
-      );
+/**
+ * 週次のふりかえり通知（1時間ごと）
+ * ふりかえりを有効にしたユーザーに、ユーザーのタイムゾーンでの設定の曜日・時に、
+ * 直近7日間の完了数・連続達成・遅延と、これから7日間の予定を通知する
+ */
+export const sendSummaryDigests = onSchedule(
+  {
+    schedule: "0 * * * *",
+    timeZone: "Asia/Tokyo",
+    timeoutSeconds: 540,
+  },
+  async (event) => {
+    const now = new Date(event.scheduleTime);
+    const hour = getZonedParts(now, DEFAULT_TIME_ZONE).hour;
+    try {
+      await runSummaryDigest(admin.firestore(), admin.messaging(), hour, now);
+    } catch (error) {
+      logger.error(`[ふりかえり] ${hour}時の送信エラー`, error);
     }
   }
-}
+);
 
 /**
  * グループタスク完了時の通知（新モデル対応）
@@ -354,13 +241,14 @@ export const notifyGroupTaskCompletion = onDocumentUpdated(
     }
 
     // グループタスクでない場合は処理しない
-    if (!afterData.isGroupTask || !afterData.groupId) {
+    if (!afterData.isGroupSchedule || !afterData.groupId) {
       return;
     }
 
     // 完了状態が変更されていない場合は処理しない
-    const wasCompleted = beforeData.groupCompletedAt != null;
-    const isNowCompleted = afterData.groupCompletedAt != null;
+    // （スキーマ移行で旧フィールドから移した完了日時は新たな完了として扱わない）
+    const wasCompleted = isTaskCompleted(beforeData);
+    const isNowCompleted = isTaskCompleted(afterData);
 
     if (wasCompleted || !isNowCompleted) {
       return;
@@ -373,7 +261,6 @@ export const notifyGroupTaskCompletion = onDocumentUpdated(
     }
 
     const groupId = afterData.groupId;
-    const taskTitle = afterData.title || "タスク";
 
     try {
       const db = admin.firestore();
@@ -387,7 +274,6 @@ export const notifyGroupTaskCompletion = onDocumentUpdated(
       }
 
       const groupData = groupDoc.data();
-      const groupName = groupData?.name || "グループ";
       const memberIds = groupData?.memberIds || [];
 
       // 完了したメンバーの情報を取得
@@ -395,8 +281,8 @@ export const notifyGroupTaskCompletion = onDocumentUpdated(
         .collection("users")
         .doc(completedByMemberId)
         .get();
-      const completedByUserName =
-        completedByUserDoc.data()?.displayName || "メンバー";
+      const completedByDisplayName =
+        completedByUserDoc.data()?.displayName as string | undefined;
 
       // 完了したメンバー以外に通知
       const otherMemberIds = memberIds.filter(
@@ -404,90 +290,91 @@ export const notifyGroupTaskCompletion = onDocumentUpdated(
       );
 
       logger.info(
-        // eslint-disable-next-line max-len
-        `グループタスク完了通知: ${groupName} - ${taskTitle} by ${completedByUserName}`
+        `グループタスク完了通知: ${groupData?.name} - ${afterData.title} ` +
+        `by ${completedByDisplayName}`
       );
 
       // 各メンバーに通知を送信
       const notificationPromises = otherMemberIds.map(
         async (memberId: string) => {
           try {
-            // メンバーのFCMトークンを取得
+            // メンバーの言語で文言を作成
             const memberDoc = await db.collection("users").doc(memberId).get();
-            const fcmToken = memberDoc.data()?.fcmToken;
-
-            if (!fcmToken) {
-              logger.warn(`[${memberId}] FCMトークンが見つかりません`);
-              return;
-            }
-
-            // 通知を送信
-            await messaging.send({
-              token: fcmToken,
-              notification: {
-                title: `${groupName} - タスク完了`,
-                body: `${completedByUserName}さんが「${taskTitle}」を完了しました`,
-              },
-              data: {
-                type: "group_task_completion",
-                groupId: groupId,
-                taskId: event.params.taskId,
-                completedByMemberId: completedByMemberId,
-                completedByUserName: completedByUserName,
-                taskTitle: taskTitle,
-              },
-              android: {
-                priority: "high",
+            const locale = resolveLocale(memberDoc.data()?.locale);
+            const groupName = groupData?.name ||
+              formatMessage(locale, "fallback.group");
+            const completedByUserName = completedByDisplayName ||
+              formatMessage(locale, "fallback.member");
+            const taskTitle = afterData.title ||
+              formatMessage(locale, "fallback.task");
+
+            // メンバーの全デバイスに通知を送信（おやすみ時間・ミュート中は保留）
+            const {deferred, result} =
+              await deliverOrDefer(db, messaging, memberId, {
                 notification: {
-                  channelId: "group_notification_channel",
+                  title: formatMessage(
+                    locale,
+                    "groupCompleted.title",
+                    {groupName}
+                  ),
+                  body: formatMessage(
+                    locale,
+                    "groupCompleted.body",
+                    {userName: completedByUserName, taskTitle}
+                  ),
+                },
+                data: {
+                  type: "group_task_completion",
+                  groupId: groupId,
+                  taskId: event.params.taskId,
+                  completedByMemberId: completedByMemberId,
+                  completedByUserName: completedByUserName,
+                  taskTitle: taskTitle,
+                  ...buildActionData(
+                    NotificationCategory.GROUP_TASK_COMPLETED,
+                    [event.params.taskId]
+                  ),
+                },
+                android: {
                   priority: "high",
+                  notification: {
+                    channelId: "group_notification_channel",
+                    priority: "high",
+                  },
                 },
-              },
-              apns: {
-                payload: {
-                  aps: {
-                    sound: "default",
+                apns: {
+                  payload: {
+                    aps: {
+                      sound: "default",
+                      category: NotificationCategory.GROUP_TASK_COMPLETED,
+                    },
                   },
                 },
-              },
-            });
+              }, {userData: memberDoc.data()});
+
+            if (deferred || !result) {
+              return;
+            }
+            if (result.tokenCount === 0) {
+              logger.warn(`[${memberId}] FCMトークンが見つかりません`);
+              return;
+            }
 
             logger.info(
-              `[${memberId}] グループタスク完了通知送信成功: ${taskTitle}`
+              `[${memberId}] グループタスク完了通知送信完了: ${taskTitle}`,
+              {
+                success: result.successCount,
+                failure: result.failureCount,
+                pruned: result.prunedCount,
+              }
             );
           } catch (error) {
             const errorCode = (error as {code?: string}).code;
             const errorMessage = (error as {message?: string}).message;
-
-            // 無効なトークンの場合は削除
-            if (
-              errorCode === "messaging/invalid-registration-token" ||
-              errorCode === "messaging/registration-token-not-registered"
-            ) {
-              logger.warn(`[${memberId}] 無効なFCMトークンを削除`);
-              await db.collection("users").doc(memberId).update({
-                fcmToken: admin.firestore.FieldValue.delete(),
-              });
-            } else if (
-              // APNS認証エラーの場合
-              errorCode === "messaging/third-party-auth-error" ||
-              errorMessage?.includes("Auth error from APNS")
-            ) {
-              logger.error(
-                `[${memberId}] APNS認証エラー。Firebase ConsoleでAPNS証明書を確認してください`,
-                {errorCode, errorMessage}
-              );
-              // APNS認証エラーの場合もトークンを削除（再登録を促す）
-              await db.collection("users").doc(memberId).update({
-                fcmToken: admin.firestore.FieldValue.delete(),
-              });
-            } else {
-              // その他のエラー
-              logger.error(
-                `[${memberId}] 通知送信エラー`,
-                {errorCode, errorMessage, error}
-              );
-            }
+            logger.error(
+              `[${memberId}] 通知送信エラー`,
+              {errorCode, errorMessage, error}
+            );
           }
         }
       );
@@ -503,331 +390,586 @@ export const notifyGroupTaskCompletion = onDocumentUpdated(
 );
 
 /**
- * 月次タスク自動生成（Plan Aに移行したため無効化）
- * 旧実装: 毎月1日0時（日本時間）に翌月分のタスクを生成
- * 新実装: アプリ起動時にgenerateUserTasks/generateGroupTasksを呼び出し
+ * カスタム繰り返し（完了後N日ごと）の次回タスクを生成
+ * タスクの完了時に完了日からrepeatInterval日後のタスクを作成し
+ * （テンプレートの祝日の扱いを適用）、完了が取り消された場合は未完了の次回タスクを削除する
  */
-// export const generateMonthlyTasks = onSchedule(
-//   {
-//     schedule: "0 0 1 * *", // 毎月1日0時（JST）
-//     timeZone: "Asia/Tokyo",
-//   },
-//   async () => {
-//     logger.info("[月次タスク生成] 処理開始");
-//     // ... 処理内容は削除 ...
-//   }
-// );
+export const generateNextCustomTask = onDocumentUpdated(
+  {
+    document: "tasks/{taskId}",
+    region: "asia-northeast1",
+  },
+  async (event) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
 
-/**
- * 次回のタスク予定日を計算
- * @param {ScheduleTemplateData} template - テンプレートデータ
- * @param {Date} baseDate - 基準日
- * @return {Date} 次回のタスク予定日
- */
-function calculateNextTaskDate(
-  template: ScheduleTemplateData,
-  baseDate: Date
-): Date {
-  switch (template.repeatType) {
-  case RepeatType.NONE:
-    // 繰り返しなしの場合は非常に未来の日付を返す（ループ終了）
-    return new Date(9999, 11, 31);
-
-  case RepeatType.DAILY:
-    return new Date(
-      baseDate.getFullYear(),
-      baseDate.getMonth(),
-      baseDate.getDate() + 1
-    );
+    // データが存在しない場合は処理しない
+    if (!beforeData || !afterData) {
+      return;
+    }
 
-  case RepeatType.CUSTOM_WEEKLY: {
-    // 曜日指定
-    if (!template.selectedWeekdays || template.selectedWeekdays.length === 0) {
-      return new Date(
-        baseDate.getFullYear(),
-        baseDate.getMonth(),
-        baseDate.getDate() + 1
-      );
+    // カスタム繰り返しのテンプレート由来でない場合は処理しない
+    if (
+      afterData.repeatType !== RepeatType.CUSTOM ||
+      !afterData.templateId ||
+      afterData.isDeleted === true
+    ) {
+      return;
     }
-    return findNextWeekday(baseDate, template.selectedWeekdays);
-  }
 
-  case RepeatType.MONTHLY: {
-    // monthlyDayが指定されている場合はその日を使用
-    const targetDay = template.monthlyDay ?? baseDate.getDate();
-    const day = targetDay > 28 ? 28 : targetDay;
+    const wasCompleted = isTaskCompleted(beforeData);
+    const isNowCompleted = isTaskCompleted(afterData);
 
-    let nextMonth = baseDate.getMonth() + 1;
-    let nextYear = baseDate.getFullYear();
-    if (nextMonth > 11) {
-      nextMonth = 0;
-      nextYear++;
+    // 完了状態が変更されていない場合は処理しない
+    if (wasCompleted === isNowCompleted) {
+      return;
     }
 
-    return new Date(nextYear, nextMonth, day);
-  }
+    const taskId = event.params.taskId;
+    const db = admin.firestore();
 
-  case RepeatType.MONTHLY_LAST_DAY: {
-    // 翌月の月末を計算
-    let nextMonth = baseDate.getMonth() + 1;
-    let nextYear = baseDate.getFullYear();
-    if (nextMonth > 11) {
-      nextMonth = 0;
-      nextYear++;
+    try {
+      if (isNowCompleted) {
+        await createNextCustomTask(db, taskId);
+      } else {
+        await rollbackNextCustomTask(db, taskId);
+      }
+    } catch (error) {
+      logger.error(`[カスタム次回タスク] エラー taskId: ${taskId}`, error);
+      throw error;
     }
-
-    // 翌月の末日を取得（翌々月の0日 = 翌月の末日）
-    return new Date(nextYear, nextMonth + 1, 0);
   }
+);
 
-  case RepeatType.CUSTOM: {
-    if (!template.repeatInterval || template.repeatInterval <= 0) {
-      return new Date(
-        baseDate.getFullYear(),
-        baseDate.getMonth(),
-        baseDate.getDate() + 1
-      );
+/**
+ * テンプレートの変更を生成済みタスクに反映
+ * タイトル・説明・リマインダー時刻は今日以降の未完了タスクを書き換え、
+ * 繰り返しが変わった場合は合わなくなった日のタスクを論理削除して新しい日のタスクを生成する
+ * 無効化された場合は今日以降の未完了タスクを論理削除し、再有効化された場合は復元する
+ */
+export const syncTemplateChangesToTasks = onDocumentUpdated(
+  {
+    document: "schedule_templates/{templateId}",
+    region: "asia-northeast1",
+  },
+  async (event) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+
+    // データが存在しない場合は処理しない
+    if (!beforeData || !afterData) {
+      return;
     }
-    return new Date(
-      baseDate.getFullYear(),
-      baseDate.getMonth(),
-      baseDate.getDate() + template.repeatInterval
-    );
-  }
 
-  default:
-    return new Date(
-      baseDate.getFullYear(),
-      baseDate.getMonth(),
-      baseDate.getDate() + 1
-    );
+    const templateId = event.params.templateId;
+    const before = {...beforeData, id: templateId} as ScheduleTemplateData;
+    const after = {...afterData, id: templateId} as ScheduleTemplateData;
+    const db = admin.firestore();
+    try {
+      if (before.isActive === true && after.isActive !== true) {
+        await softDeleteTemplateTasks(
+          db,
+          templateId,
+          after,
+          "template_deactivated"
+        );
+      } else if (before.isActive !== true && after.isActive === true) {
+        await restoreTemplateTasks(db, templateId, after);
+        if (hasAssigneeRotation(after)) {
+          await reassignFutureTasks(
+            db,
+            templateId,
+            after,
+            await getTemplateTimeZone(db, after)
+          );
+        }
+      } else {
+        await syncTemplateTasks(db, templateId, before, after);
+        if (after.isActive === true && hasRotationChanged(before, after)) {
+          await reassignFutureTasks(
+            db,
+            templateId,
+            after,
+            await getTemplateTimeZone(db, after)
+          );
+        }
+      }
+    } catch (error) {
+      logger.error(`[テンプレート更新] エラー template=${templateId}`, error);
+      throw error;
+    }
   }
-}
+);
 
 /**
- * 指定された曜日リストから次回の日付を検索
- * @param {Date} baseDate - 基準日
- * @param {number[]} weekdays - 曜日リスト（1=月曜, 7=日曜）
- * @return {Date} 次回の日付
+ * テンプレート削除時に、今日以降の未完了タスクを論理削除
+ * 完了済みのタスクと過去のタスクは履歴として残す
  */
-function findNextWeekday(baseDate: Date, weekdays: number[]): Date {
-  const nextDate = new Date(baseDate);
-  nextDate.setDate(nextDate.getDate() + 1);
-
-  // 最大14日先まで検索（2週間分）
-  for (let i = 0; i < 14; i++) {
-    // JavaScriptのweekdayは0=日曜, Dartは1=月曜なので変換
-    const jsWeekday = nextDate.getDay() === 0 ? 7 : nextDate.getDay();
-    if (weekdays.includes(jsWeekday)) {
-      return nextDate;
-    }
-    nextDate.setDate(nextDate.getDate() + 1);
-  }
+export const cleanupDeletedTemplateTasks = onDocumentDeleted(
+  {
+    document: "schedule_templates/{templateId}",
+    region: "asia-northeast1",
+  },
+  async (event) => {
+    const data = event.data?.data();
+    if (!data) {
+      return;
+    }
 
-  // 見つからない場合は翌日を返す（フォールバック）
-  const fallback = new Date(baseDate);
-  fallback.setDate(fallback.getDate() + 1);
-  return fallback;
-}
+    const templateId = event.params.templateId;
+    try {
+      await softDeleteTemplateTasks(
+        admin.firestore(),
+        templateId,
+        {...data, id: templateId} as ScheduleTemplateData,
+        "template_deleted"
+      );
+    } catch (error) {
+      logger.error(`[テンプレート削除] エラー template=${templateId}`, error);
+      throw error;
+    }
+  }
+);
 
 /**
- * ユーザーの個人タスクを生成するCallable関数
- * アプリ起動時にクライアントから呼び出される
+ * グループのメンバーが加入・脱退した時、担当者のローテーションがある
+ * テンプレートの今日以降の未完了タスクを割り当て直す
  */
-export const generateUserTasks = onCall(
-  {region: "asia-northeast1"},
-  async (request) => {
-    const userId = request.auth?.uid;
-    if (!userId) {
-      throw new HttpsError("unauthenticated", "認証が必要です");
+export const reassignRotationOnMembersChange = onDocumentUpdated(
+  {
+    document: "groups/{groupId}",
+    region: "asia-northeast1",
+  },
+  async (event) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+
+    // データが存在しない場合は処理しない
+    if (!beforeData || !afterData) {
+      return;
     }
 
-    logger.info(`[個人タスク生成] userId: ${userId}, 14日先まで生成`);
+    // メンバーが変わっていない場合は処理しない
+    const beforeMembers = getGroupMemberIds(beforeData).sort().join(",");
+    const afterMembers = getGroupMemberIds(afterData).sort().join(",");
+    if (beforeMembers === afterMembers) {
+      return;
+    }
 
+    const groupId = event.params.groupId;
     const db = admin.firestore();
-
     try {
-      // 個人テンプレートを取得（グループタスク除外、繰り返し設定あり）
       const templatesSnapshot = await db
         .collection("schedule_templates")
-        .where("userId", "==", userId)
+        .where("groupId", "==", groupId)
         .where("isActive", "==", true)
-        .where("isGroupSchedule", "==", false)
         .get();
-
-      if (templatesSnapshot.empty) {
-        logger.info(`[個人タスク生成] テンプレートなし userId: ${userId}`);
-        return {success: true, tasksCreated: 0, message: "テンプレートなし"};
-      }
-
-      // 繰り返し設定のないテンプレートを除外
-      const validTemplates = templatesSnapshot.docs.filter((doc) => {
-        const template = doc.data() as ScheduleTemplateData;
-
-        // repeatTypeが未定義またはNONEの場合は除外
-        if (!template.repeatType || template.repeatType === RepeatType.NONE) {
-          logger.info(
-            `[個人タスク生成] 除外（繰り返しなし）: template=${doc.id}, ` +
-            `repeatType=${template.repeatType}`
-          );
-          return false;
+      const timeZone = await getGroupTimeZone(db, groupId);
+      for (const templateDoc of templatesSnapshot.docs) {
+        const template = {
+          ...templateDoc.data(),
+          id: templateDoc.id,
+        } as ScheduleTemplateData;
+        if (hasAssigneeRotation(template)) {
+          await reassignFutureTasks(db, templateDoc.id, template, timeZone);
         }
-        return true;
-      });
-
-      if (validTemplates.length === 0) {
-        logger.info(
-          `[個人タスク生成] 有効なテンプレートなし userId: ${userId}`
-        );
-        return {
-          success: true,
-          tasksCreated: 0,
-          message: "繰り返し設定のあるテンプレートなし",
-        };
       }
+    } catch (error) {
+      logger.error(`[担当ローテーション] エラー group=${groupId}`, error);
+      throw error;
+    }
+  }
+);
 
-      let totalTasksCreated = 0;
-
-      // 14日先までの期間を取得
-      const {startDate, endDate} = getGenerationRange();
+/**
+ * 担当者のいるグループタスクをユーザーがスキップ（論理削除）・復元した時、
+ * 同じテンプレートの今日以降の未完了タスクを割り当て直す
+ * スキップしたタスクは順番を消費せず、その担当者が次のタスクを担当する
+ */
+export const reassignRotationOnTaskSkip = onDocumentUpdated(
+  {
+    document: "tasks/{taskId}",
+    region: "asia-northeast1",
+  },
+  async (event) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
 
-      logger.info(
-        "[個人タスク生成] 生成期間: " +
-        `${startDate.toISOString()} - ${endDate.toISOString()}`
-      );
+    // データが存在しない場合は処理しない
+    if (!beforeData || !afterData) {
+      return;
+    }
 
-      // 各テンプレートについて処理
-      for (const templateDoc of validTemplates) {
-        const template = templateDoc.data() as ScheduleTemplateData;
+    // ユーザーによる論理削除・復元でない場合は処理しない
+    // （テンプレートの変更によるシステムの論理削除はdeletedReasonがある）
+    const wasDeleted = beforeData.isDeleted === true;
+    const isDeleted = afterData.isDeleted === true;
+    const reason = afterData.deletedReason ?? beforeData.deletedReason;
+    if (wasDeleted === isDeleted || reason) {
+      return;
+    }
+    if (!afterData.templateId || !afterData.groupId || !afterData.assigneeId) {
+      return;
+    }
 
-        // CUSTOM の場合は常にスキップ（Dart側で完了時に生成）
-        if (template.repeatType === RepeatType.CUSTOM) {
-          logger.info(
-            `[個人タスク生成] スキップ（完了後管理）: template=${templateDoc.id}`
-          );
-          continue;
-        }
+    const taskId = event.params.taskId;
+    const db = admin.firestore();
+    try {
+      const templateDoc = await db
+        .collection("schedule_templates")
+        .doc(afterData.templateId)
+        .get();
+      const templateData = templateDoc.data();
+      if (!templateData || templateData.isActive !== true) {
+        return;
+      }
+      const template = {
+        ...templateData,
+        id: templateDoc.id,
+      } as ScheduleTemplateData;
+      if (!hasAssigneeRotation(template)) {
+        return;
+      }
+      await reassignFutureTasks(
+        db,
+        templateDoc.id,
+        template,
+        await getGroupTimeZone(db, afterData.groupId)
+      );
+    } catch (error) {
+      logger.error(`[担当ローテーション] エラー taskId: ${taskId}`, error);
+      throw error;
+    }
+  }
+);
 
-        logger.info(
-          "[個人タスク生成] テンプレート処理開始: " +
-          `id=${templateDoc.id}, title=${template.title}, ` +
-          `repeatType=${template.repeatType}, ` +
-          `weekdays=${JSON.stringify(template.selectedWeekdays)}`
-        );
+/**
+ * タスクの作成・変更・削除を完了統計の日ごとの集計に反映
+ * 個人タスクはユーザー、グループタスクはグループ、テンプレートのタスクはテンプレートの集計に加算する
+ */
+export const updateTaskStats = onDocumentWritten(
+  {
+    document: "tasks/{taskId}",
+    region: "asia-northeast1",
+  },
+  async (event) => {
+    const taskId = event.params.taskId;
+    try {
+      await applyTaskStats(admin.firestore(), taskId);
+    } catch (error) {
+      logger.error(`[完了統計] 集計エラー taskId: ${taskId}`, error);
+      throw error;
+    }
+  }
+);
 
-        // 既存タスクの日付を取得（期間内のすべて）
-        const existingTaskSnapshot = await db
-          .collection("tasks")
-          .where("userId", "==", userId)
-          .where("templateId", "==", templateDoc.id)
-          .where(
-            "scheduledDate",
-            ">=",
-            admin.firestore.Timestamp.fromDate(startDate)
-          )
-          .where(
-            "scheduledDate",
-            "<=",
-            admin.firestore.Timestamp.fromDate(endDate)
-          )
-          .get();
+/**
+ * グループタスクの完了・完了の取り消しをメンバーごとの完了数に反映
+ * completedByMemberIdのメンバーに、テンプレート別・月別の完了数を加算する
+ * 取り消し・完了者の変更・削除の場合は、以前に加算した分を差し引く
+ */
+export const updateGroupContributions = onDocumentWritten(
+  {
+    document: "tasks/{taskId}",
+    region: "asia-northeast1",
+  },
+  async (event) => {
+    const taskId = event.params.taskId;
+    const groupId = (event.data?.after.data()?.groupId ??
+      event.data?.before.data()?.groupId) as string | undefined;
+    // グループタスクでない場合は集計済みの内容もない
+    if (!groupId) {
+      return;
+    }
+    try {
+      await applyGroupContribution(admin.firestore(), taskId, groupId);
+    } catch (error) {
+      logger.error(`[メンバー別完了数] 集計エラー taskId: ${taskId}`, error);
+      throw error;
+    }
+  }
+);
 
-        // 既存タスクの日付セット作成(isDeleted含む=再生成防止)
-        const existingDates = new Set<string>();
-        existingTaskSnapshot.docs.forEach((doc) => {
-          const taskData = doc.data();
-          // 論理削除タスクも含める(削除済み日付への再生成を防止)
-          const sd = taskData.scheduledDate as admin.firestore.Timestamp;
-          const scheduledDate = sd.toDate();
-          const year = scheduledDate.getFullYear();
-          const month = (scheduledDate.getMonth() + 1)
-            .toString().padStart(2, "0");
-          const day = scheduledDate.getDate().toString().padStart(2, "0");
-          const dateKey = `${year}-${month}-${day}`;
-          existingDates.add(dateKey);
-        });
+/**
+ * 完了したカスタム繰り返しタスクの次回タスクを作成（冪等）
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} taskId - 完了したタスクのID
+ * @return {Promise<void>}
+ */
+async function createNextCustomTask(
+  db: admin.firestore.Firestore,
+  taskId: string
+): Promise<void> {
+  const taskRef = db.collection("tasks").doc(taskId);
+  const taskSnapshot = await taskRef.get();
+  const task = taskSnapshot.data();
+  if (!task || !task.completedAt) {
+    return;
+  }
 
-        if (existingDates.size > 0) {
-          logger.info(
-            "[個人タスク生成] 既存タスク検出: " +
-            `template=${templateDoc.id}, count=${existingDates.size}`
-          );
-        }
+  // テンプレートを確認（無効化・種類変更されていれば生成しない）
+  const templateDoc = await db
+    .collection("schedule_templates")
+    .doc(task.templateId)
+    .get();
+  const template = templateDoc.data() as ScheduleTemplateData | undefined;
+  if (
+    !template ||
+    !template.isActive ||
+    !isCompletionBasedRecurrence(template) ||
+    template.requiresCompletion !== true
+  ) {
+    logger.info(
+      `[カスタム次回タスク] スキップ（テンプレート対象外）: task=${taskId}`
+    );
+    return;
+  }
 
-        // カスタム繰り返しの場合のみ、最後のタスク日を取得
-        let lastTaskDate: Date | null = null;
-        if (template.repeatType === RepeatType.CUSTOM) {
-          const lastTaskSnapshot = await db
-            .collection("tasks")
-            .where("userId", "==", userId)
-            .where("templateId", "==", templateDoc.id)
-            .orderBy("scheduledDate", "desc")
-            .limit(1)
-            .get();
-
-          lastTaskDate = !lastTaskSnapshot.empty ?
-            (lastTaskSnapshot.docs[0].data()
-              .scheduledDate as admin.firestore.Timestamp).toDate() :
-            null;
-
-          const lastTaskDateStr = lastTaskDate ?
-            lastTaskDate.toISOString() : "なし";
+  const timeZone = task.isGroupSchedule && task.groupId ?
+    await getGroupTimeZone(db, task.groupId) :
+    await getUserTimeZone(db, task.userId);
+
+  const repeatInterval =
+    template.repeatInterval && template.repeatInterval > 0 ?
+      template.repeatInterval : 1;
+
+  // 完了日（ユーザーのタイムゾーン）からrepeatInterval日後（祝日の扱いを適用）
+  const completedDate = toZonedCalendarDate(
+    (task.completedAt as admin.firestore.Timestamp).toDate(),
+    timeZone
+  );
+  const nextDate = calculateNextCompletionBasedDate(template, completedDate);
+
+  const nextScheduledDate = calendarDateToZonedMidnight(nextDate, timeZone);
+  const nextDateKey = toZonedDateKey(nextScheduledDate, timeZone);
+
+  // グループ予定の担当者は完了したタスクから順番を引き継ぐ
+  const assign = await createAssigneePicker(
+    db,
+    task.templateId,
+    template,
+    nextScheduledDate,
+    timeZone
+  );
+
+  const nextTaskId = await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(taskRef);
+    const currentData = current.data();
+    // トランザクション中に完了が取り消された場合は何もしない
+    if (!currentData || !currentData.completedAt) {
+      return null;
+    }
+
+    // 既に次回タスクが作成済みなら何もしない
+    if (currentData.nextTaskId) {
+      const existing = await transaction.get(
+        db.collection("tasks").doc(currentData.nextTaskId)
+      );
+      if (existing.exists) {
+        return null;
+      }
+    }
+
+    // 決定的IDで作成（同じ日のタスクが既にあれば作成も紐付けもしない）
+    const nextRef = db
+      .collection("tasks")
+      .doc(buildTaskId(task.templateId, nextDateKey));
+    const nextSnapshot = await transaction.get(nextRef);
+    if (nextSnapshot.exists) {
+      const nextData = nextSnapshot.data();
+      // 完了の取り消しで削除した、このタスクの次回タスクは復元する
+      if (
+        nextData?.generatedFromTaskId !== taskId ||
+        nextData?.deletedReason !== "completion_undone"
+      ) {
+        return null;
+      }
+      transaction.update(nextRef, {
+        isDeleted: false,
+        deletedReason: null,
+        deletedAt: null,
+      });
+      transaction.update(taskRef, {nextTaskId: nextRef.id});
+      return nextRef.id;
+    }
+
+    transaction.create(nextRef, buildTaskDocument(
+      task.templateId,
+      template,
+      nextDate,
+      timeZone,
+      {
+        repeatInterval: repeatInterval,
+        monthlyDay: null,
+        assigneeId: assign(nextDate),
+        generatedFromTaskId: taskId,
+      }
+    ));
+    transaction.update(taskRef, {nextTaskId: nextRef.id});
+    return nextRef.id;
+  });
+
+  if (nextTaskId) {
+    logger.info(
+      `[カスタム次回タスク] 生成: task=${taskId}, next=${nextTaskId}, ` +
+      `date=${nextDateKey}`
+    );
+  }
+}
+
+/**
+ * 完了が取り消されたカスタム繰り返しタスクの次回タスクを論理削除
+ * このタスクから作成した次回タスクだけが対象で、既に完了している場合は履歴として残す
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} taskId - 完了が取り消されたタスクのID
+ * @return {Promise<void>}
+ */
+async function rollbackNextCustomTask(
+  db: admin.firestore.Firestore,
+  taskId: string
+): Promise<void> {
+  const taskRef = db.collection("tasks").doc(taskId);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(taskRef);
+    const currentData = current.data();
+    // 再度完了された場合や次回タスクがない場合は何もしない
+    if (!currentData || currentData.completedAt || !currentData.nextTaskId) {
+      return null;
+    }
+
+    const nextRef = db.collection("tasks").doc(currentData.nextTaskId);
+    const next = await transaction.get(nextRef);
+    const nextData = next.data();
+    if (nextData?.completedAt) {
+      return "kept";
+    }
+
+    // 他のタスクから作成されたタスク・削除済みのタスクは紐付けだけを外す
+    if (
+      nextData &&
+      nextData.generatedFromTaskId === taskId &&
+      nextData.isDeleted !== true
+    ) {
+      transaction.update(nextRef, {
+        isDeleted: true,
+        deletedReason: "completion_undone" as TaskDeleteReason,
+        deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    transaction.update(taskRef, {
+      nextTaskId: admin.firestore.FieldValue.delete(),
+    });
+    return "deleted";
+  });
+
+  if (result === "kept") {
+    logger.warn(
+      `[カスタム次回タスク] 次回タスクが完了済みのため残します: task=${taskId}`
+    );
+  } else if (result === "deleted") {
+    logger.info(`[カスタム次回タスク] 取り消し: task=${taskId}`);
+  }
+}
+
+/**
+ * 月次タスク自動生成（Plan Aに移行したため無効化）
+ * 旧実装: 毎月1日0時（日本時間）に翌月分のタスクを生成
+ * 新実装: アプリ起動時にgenerateUserTasks/generateGroupTasksを呼び出し
+ * 補完: アプリを起動しないユーザー向けにgenerateTasksNightlyで毎晩補充
+ */
+// export const generateMonthlyTasks = onSchedule(
+//   {
+//     schedule: "0 0 1 * *", // 毎月1日0時（JST）
+//     timeZone: "Asia/Tokyo",
+//   },
+//   async () => {
+//     logger.info("[月次タスク生成] 処理開始");
+//     // ... 処理内容は削除 ...
+//   }
+// );
+
+/**
+ * ユーザーの個人タスクを生成するCallable関数
+ * アプリ起動時にクライアントから呼び出される
+ */
+export const generateUserTasks = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    logger.info(`[個人タスク生成] userId: ${userId}, 14日先まで生成`);
+
+    const db = admin.firestore();
+
+    try {
+      // 個人テンプレートを取得（グループタスク除外、繰り返し設定あり）
+      const templatesSnapshot = await db
+        .collection("schedule_templates")
+        .where("userId", "==", userId)
+        .where("isActive", "==", true)
+        .where("isGroupSchedule", "==", false)
+        .get();
+
+      if (templatesSnapshot.empty) {
+        logger.info(`[個人タスク生成] テンプレートなし userId: ${userId}`);
+        return {success: true, tasksCreated: 0, message: "テンプレートなし"};
+      }
+
+      // 繰り返し設定のないテンプレートを除外
+      const validTemplates = templatesSnapshot.docs.filter((doc) => {
+        const template = doc.data() as ScheduleTemplateData;
+
+        // repeatTypeが未定義またはNONE（rruleもなし）の場合は除外
+        if (!hasRecurrence(template)) {
           logger.info(
-            "[個人タスク生成] カスタム繰り返し最終タスク日: " +
-            `template=${templateDoc.id}, lastTaskDate=${lastTaskDateStr}`
+            `[個人タスク生成] 除外（繰り返しなし）: template=${doc.id}, ` +
+            `repeatType=${template.repeatType}`
           );
+          return false;
         }
+        return true;
+      });
 
-        // この期間のタスク日付リストを生成
-        const taskDates = generateTaskDatesForMonth(
-          template,
-          startDate,
-          endDate,
-          lastTaskDate
+      if (validTemplates.length === 0) {
+        logger.info(
+          `[個人タスク生成] 有効なテンプレートなし userId: ${userId}`
         );
+        return {
+          success: true,
+          tasksCreated: 0,
+          message: "繰り返し設定のあるテンプレートなし",
+        };
+      }
 
-        // 日ごとに重複チェックしてタスクを作成
-        let createdCount = 0;
-        for (const taskDate of taskDates) {
-          const year = taskDate.getFullYear();
-          const month = (taskDate.getMonth() + 1)
-            .toString().padStart(2, "0");
-          const day = taskDate.getDate().toString().padStart(2, "0");
-          const dateKey = `${year}-${month}-${day}`;
-
-          // この日付が既に存在する場合はスキップ
-          if (existingDates.has(dateKey)) {
-            continue;
-          }
+      let totalTasksCreated = 0;
 
-          await db.collection("tasks").add({
-            userId: userId,
-            templateId: templateDoc.id,
-            title: template.title,
-            description: template.description,
-            scheduledDate: admin.firestore.Timestamp.fromDate(taskDate),
-            completedAt: null,
-            completedByMemberId: null,
-            groupId: null,
-            isGroupSchedule: false,
-            isDeleted: false,
-            repeatType: template.repeatType,
-            weekdays: template.selectedWeekdays || null,
-            repeatInterval: template.repeatInterval || null,
-            monthlyDay: template.monthlyDay || null,
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          });
+      // ユーザーのタイムゾーンで14日先まで生成
+      const timeZone = await getUserTimeZone(db, userId);
+
+      // 各テンプレートについて処理
+      for (const templateDoc of validTemplates) {
+        const template = templateDoc.data() as ScheduleTemplateData;
 
-          createdCount++;
-          totalTasksCreated++;
+        // CUSTOM の場合は常にスキップ（完了時にgenerateNextCustomTaskで生成）
+        if (isCompletionBasedRecurrence(template)) {
+          logger.info(
+            `[個人タスク生成] スキップ（完了後管理）: template=${templateDoc.id}`
+          );
+          continue;
         }
 
-        logger.info(
-          "[個人タスク生成] 完了: " +
-          `template=${templateDoc.id}, ` +
-          `created=${createdCount}/${taskDates.length}`
+        const result = await generateTemplateTasks(
+          db,
+          templateDoc.id,
+          template,
+          timeZone,
+          "[個人タスク生成]"
         );
+        totalTasksCreated += result.created;
       }
 
       logger.info(
@@ -846,73 +988,6 @@ export const generateUserTasks = onCall(
   }
 );
 
-/**
- * 14日先までの範囲を取得
- * @return {Object} 今日から14日後までの開始日と終了日
- */
-function getGenerationRange(): {startDate: Date; endDate: Date} {
-  const today = new Date();
-  const year = today.getFullYear();
-  const month = today.getMonth();
-  const day = today.getDate();
-
-  const startDate = new Date(year, month, day);
-  const endDate = new Date(year, month, day + 14);
-
-  return {startDate, endDate};
-}
-
-/**
- * 指定期間内のタスク日付リストを生成
- * @param {ScheduleTemplateData} template - テンプレート
- * @param {Date} startDate - 開始日
- * @param {Date} endDate - 終了日
- * @param {Date | null} lastTaskDate - 最後のタスク日（ない場合はnull）
- * @return {Date[]} タスク日付リスト
- */
-function generateTaskDatesForMonth(
-  template: ScheduleTemplateData,
-  startDate: Date,
-  endDate: Date,
-  lastTaskDate: Date | null = null
-): Date[] {
-  const dates: Date[] = [];
-
-  // 日本時間（JST）の今日の0時を取得
-  const now = new Date();
-  const jstOffset = 9 * 60 * 60 * 1000; // 9時間をミリ秒に変換
-  const jstNow = new Date(now.getTime() + jstOffset);
-  const today = new Date(
-    jstNow.getUTCFullYear(),
-    jstNow.getUTCMonth(),
-    jstNow.getUTCDate()
-  );
-
-  // 最後のタスク日がある場合はそこから、ない場合は期間開始の前日から
-  const baseDate = lastTaskDate ?
-    new Date(lastTaskDate) :
-    new Date(startDate.getTime() - 86400000);
-
-  let currentDate = calculateNextTaskDate(template, baseDate);
-
-  while (currentDate <= endDate) {
-    // 今日以降かつ期間内の場合のみ追加
-    if (currentDate >= startDate && currentDate >= today) {
-      dates.push(new Date(currentDate));
-    }
-
-    // 次のタスク日を計算（現在のタスク日を基準に）
-    currentDate = calculateNextTaskDate(template, currentDate);
-
-    // 無限ループ防止
-    if (dates.length > 100) {
-      break;
-    }
-  }
-
-  return dates;
-}
-
 /**
  * 特定のテンプレートIDに対してタスクを生成するCallable関数
  * 予定の追加・更新時にクライアントから呼び出される
@@ -996,8 +1071,8 @@ export const generateTasksForTemplate = onCall(
         }
       }
 
-      // 繰り返し設定がない場合は何もしない
-      if (!template.repeatType || template.repeatType === RepeatType.NONE) {
+      // 繰り返し設定（repeatType/rrule）がない場合は何もしない
+      if (!hasRecurrence(template)) {
         logger.info(
           `[テンプレートタスク生成] 繰り返しなし templateId: ${templateId}`
         );
@@ -1020,18 +1095,8 @@ export const generateTasksForTemplate = onCall(
         };
       }
 
-      let totalTasksCreated = 0;
-
-      // 14日先までの期間を取得
-      const {startDate, endDate} = getGenerationRange();
-
-      logger.info(
-        "[テンプレートタスク生成] 生成期間: " +
-        `${startDate.toISOString()} - ${endDate.toISOString()}`
-      );
-
       // CUSTOM の場合、初回タスクが存在すればスキップ
-      if (template.repeatType === RepeatType.CUSTOM) {
+      if (isCompletionBasedRecurrence(template)) {
         const query = template.isGroupSchedule ?
           db
             .collection("tasks")
@@ -1056,159 +1121,29 @@ export const generateTasksForTemplate = onCall(
         }
       }
 
-      // 既存タスクの日付を取得（期間内のすべて）
-      const existingTaskQuery = template.isGroupSchedule ?
-        db
-          .collection("tasks")
-          .where("groupId", "==", template.groupId)
-          .where("templateId", "==", templateId) :
-        db
-          .collection("tasks")
-          .where("userId", "==", userId)
-          .where("templateId", "==", templateId);
-
-      const existingTaskSnapshot = await existingTaskQuery
-        .where(
-          "scheduledDate",
-          ">=",
-          admin.firestore.Timestamp.fromDate(startDate)
-        )
-        .where(
-          "scheduledDate",
-          "<=",
-          admin.firestore.Timestamp.fromDate(endDate)
-        )
-        .get();
-
-      // 既存タスクの日付セット作成(isDeleted含む=再生成防止)
-      const existingDates = new Set<string>();
-      existingTaskSnapshot.docs.forEach((doc) => {
-        const taskData = doc.data();
-        // 論理削除タスクも含める(削除済み日付への再生成を防止)
-        const sd = taskData.scheduledDate as admin.firestore.Timestamp;
-        const scheduledDate = sd.toDate();
-        const year = scheduledDate.getFullYear();
-        const month = (scheduledDate.getMonth() + 1)
-          .toString().padStart(2, "0");
-        const day = scheduledDate.getDate().toString().padStart(2, "0");
-        const dateKey = `${year}-${month}-${day}`;
-        existingDates.add(dateKey);
-      });
-
-      if (existingDates.size > 0) {
-        logger.info(
-          "[テンプレートタスク生成] 既存タスク検出: " +
-          `template=${templateId}, count=${existingDates.size}`
-        );
-      }
-
-      // カスタム繰り返しの場合のみ、最後のタスク日を取得
-      let lastTaskDate: Date | null = null;
-      if (template.repeatType === RepeatType.CUSTOM) {
-        const lastTaskQuery = template.isGroupSchedule ?
-          db
-            .collection("tasks")
-            .where("groupId", "==", template.groupId)
-            .where("templateId", "==", templateId) :
-          db
-            .collection("tasks")
-            .where("userId", "==", userId)
-            .where("templateId", "==", templateId);
-
-        const lastTaskSnapshot = await lastTaskQuery
-          .orderBy("scheduledDate", "desc")
-          .limit(1)
-          .get();
-
-        lastTaskDate = !lastTaskSnapshot.empty ?
-          (lastTaskSnapshot.docs[0].data()
-            .scheduledDate as admin.firestore.Timestamp).toDate() :
-          null;
+      // 個人予定は作成者、グループ予定はオーナーのタイムゾーンで14日先まで生成
+      const timeZone = template.isGroupSchedule ?
+        await getGroupTimeZone(db, template.groupId as string) :
+        await getUserTimeZone(db, template.userId);
 
-        const lastTaskDateStr = lastTaskDate ?
-          lastTaskDate.toISOString() : "なし";
-        logger.info(
-          "[テンプレートタスク生成] カスタム繰り返し最終タスク日: " +
-          `template=${templateId}, lastTaskDate=${lastTaskDateStr}`
+      const result = await generateTemplateTasks(
+        db,
+        templateId,
+        template,
+        timeZone,
+        "[テンプレートタスク生成]"
+      );
+      if (result.invalidRule) {
+        throw new HttpsError(
+          "invalid-argument",
+          `繰り返し設定（rrule）が不正です: ${result.invalidRule}`
         );
       }
+      const totalTasksCreated = result.created;
 
-      // この期間のタスク日付リストを生成
-      const taskDates = generateTaskDatesForMonth(
-        template,
-        startDate,
-        endDate,
-        lastTaskDate
-      );
-
-      // 日ごとに重複チェックしてタスクを作成
-      for (const taskDate of taskDates) {
-        const year = taskDate.getFullYear();
-        const month = (taskDate.getMonth() + 1)
-          .toString().padStart(2, "0");
-        const day = taskDate.getDate().toString().padStart(2, "0");
-        const dateKey = `${year}-${month}-${day}`;
-
-        // この日付が既に存在する場合はスキップ
-        if (existingDates.has(dateKey)) {
-          continue;
-        }
-
-        interface TaskData {
-          templateId: string;
-          title: string;
-          description: string;
-          scheduledDate: admin.firestore.Timestamp;
-          completedAt: admin.firestore.Timestamp | null;
-          completedByMemberId: string | null;
-          isDeleted: boolean;
-          repeatType: string;
-          weekdays: number[] | null;
-          repeatInterval: number | null;
-          monthlyDay: number | null;
-          createdAt: admin.firestore.FieldValue;
-          updatedAt: admin.firestore.FieldValue;
-          userId: string | null;
-          groupId: string | null;
-          isGroupSchedule: boolean;
-        }
-
-        const taskData: TaskData = {
-          templateId: templateId,
-          title: template.title,
-          description: template.description,
-          scheduledDate: admin.firestore.Timestamp.fromDate(taskDate),
-          completedAt: null,
-          completedByMemberId: null,
-          isDeleted: false,
-          repeatType: template.repeatType,
-          weekdays: template.selectedWeekdays || null,
-          repeatInterval: template.repeatInterval || null,
-          monthlyDay: template.monthlyDay || null,
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          userId: null,
-          groupId: null,
-          isGroupSchedule: false,
-        };
-
-        if (template.isGroupSchedule) {
-          taskData.userId = null;
-          taskData.groupId = template.groupId || null;
-          taskData.isGroupSchedule = true;
-        } else {
-          taskData.userId = userId;
-          taskData.groupId = null;
-          taskData.isGroupSchedule = false;
-        }
-
-        await db.collection("tasks").add(taskData);
-        totalTasksCreated++;
-      }
-
-      logger.info(
-        `[テンプレートタスク生成] 完了 templateId: ${templateId}, ` +
-        `作成数: ${totalTasksCreated}`
+      logger.info(
+        `[テンプレートタスク生成] 完了 templateId: ${templateId}, ` +
+        `作成数: ${totalTasksCreated}`
       );
       return {
         success: true,
@@ -1297,8 +1232,8 @@ export const generateGroupTasks = onCall(
       const validTemplates = templatesSnapshot.docs.filter((doc) => {
         const template = doc.data() as ScheduleTemplateData;
 
-        // repeatTypeが未定義またはNONEの場合は除外
-        if (!template.repeatType || template.repeatType === RepeatType.NONE) {
+        // repeatTypeが未定義またはNONE（rruleもなし）の場合は除外
+        if (!hasRecurrence(template)) {
           logger.info(
             `[グループタスク生成] 除外（繰り返しなし）: template=${doc.id}, ` +
             `repeatType=${template.repeatType}`
@@ -1321,163 +1256,1707 @@ export const generateGroupTasks = onCall(
 
       let totalTasksCreated = 0;
 
-      // 14日先までの期間を取得
-      const {startDate, endDate} = getGenerationRange();
-
-      logger.info(
-        "[グループタスク生成] 生成期間: " +
-        `${startDate.toISOString()} - ${endDate.toISOString()}`
-      );
+      // グループオーナーのタイムゾーンで14日先まで生成
+      const timeZone = await getUserTimeZone(db, groupData?.ownerId);
 
       // 各テンプレートについて処理
       for (const templateDoc of validTemplates) {
         const template = templateDoc.data() as ScheduleTemplateData;
 
-        // CUSTOM の場合は常にスキップ（Dart側で完了時に生成）
-        if (template.repeatType === RepeatType.CUSTOM) {
+        // CUSTOM の場合は常にスキップ（完了時にgenerateNextCustomTaskで生成）
+        if (isCompletionBasedRecurrence(template)) {
           logger.info(
             `[グループタスク生成] スキップ（完了後管理）: template=${templateDoc.id}`
           );
           continue;
         }
 
-        logger.info(
-          "[グループタスク生成] テンプレート処理開始: " +
-          `id=${templateDoc.id}, title=${template.title}, ` +
-          `repeatType=${template.repeatType}, ` +
-          `weekdays=${JSON.stringify(template.selectedWeekdays)}`
+        const result = await generateTemplateTasks(
+          db,
+          templateDoc.id,
+          template,
+          timeZone,
+          "[グループタスク生成]"
+        );
+        totalTasksCreated += result.created;
+      }
+
+      logger.info(
+        `[グループタスク生成] 完了 groupId: ${groupId}, 作成数: ${totalTasksCreated}`
+      );
+      return {
+        success: true,
+        tasksCreated: totalTasksCreated,
+        message: `${totalTasksCreated}件のタスクを生成しました`,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[グループタスク生成] エラー groupId: ${groupId}`, error);
+      throw new HttpsError("internal", "タスク生成に失敗しました");
+    }
+  }
+);
+
+
+/**
+ * 夜間タスク補充ジョブの1ページあたりのテンプレート数
+ */
+const NIGHTLY_GENERATION_PAGE_SIZE = 100;
+
+/**
+ * 夜間タスク補充ジョブの1回あたりの処理時間上限（ミリ秒）
+ * 超えた場合は中断し、次回の実行で続きから再開する
+ */
+const NIGHTLY_GENERATION_TIME_BUDGET_MS = 7 * 60 * 1000;
+
+/**
+ * 夜間タスク補充ジョブ（毎日2-5時、日本時間）
+ * 有効な全テンプレートのタスクを14日先まで補充する
+ * 2時に開始し、中断された場合は3-5時の実行で続きから再開する
+ * アプリ起動時のgenerateUserTasks/generateGroupTasksは高速パスとして併用
+ */
+export const generateTasksNightly = onSchedule(
+  {
+    schedule: "0 2-5 * * *",
+    timeZone: "Asia/Tokyo",
+    timeoutSeconds: 540,
+  },
+  async (event) => {
+    logger.info("[夜間タスク補充] 処理開始");
+    await runNightlyTaskGeneration(new Date(event.scheduleTime));
+    logger.info("[夜間タスク補充] 処理終了");
+  }
+);
+
+/**
+ * 夜間タスク補充の実行記録
+ * task_generation_runs/{YYYY-MM-DD}（日本時間の日付）に保存
+ */
+interface NightlyGenerationRun {
+  status: "running" | "paused" | "completed";
+  cursor: string | null;
+  leaseUntil: admin.firestore.Timestamp;
+  attempts: number;
+}
+
+/**
+ * 夜間タスク補充を実行（中断時は前回のカーソルから再開）
+ * @param {Date} now - 実行時刻
+ * @return {Promise<void>}
+ */
+async function runNightlyTaskGeneration(now: Date): Promise<void> {
+  const db = admin.firestore();
+  const startedAt = Date.now();
+  const runId = toZonedDateKey(now, DEFAULT_TIME_ZONE);
+  const runRef = db.collection("task_generation_runs").doc(runId);
+
+  // 実行権を取得（完了済み・他インスタンス実行中ならスキップ）
+  const run = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(runRef);
+    const current = snapshot.data() as NightlyGenerationRun | undefined;
+
+    if (current?.status === "completed") {
+      return null;
+    }
+    if (
+      current?.status === "running" &&
+      current.leaseUntil.toMillis() > Date.now()
+    ) {
+      return null;
+    }
+
+    const leaseUntil = admin.firestore.Timestamp.fromMillis(
+      Date.now() + NIGHTLY_GENERATION_TIME_BUDGET_MS + 2 * 60 * 1000
+    );
+    if (!current) {
+      transaction.create(runRef, {
+        status: "running",
+        cursor: null,
+        leaseUntil,
+        attempts: 1,
+        templatesScanned: 0,
+        templatesProcessed: 0,
+        templatesSkipped: 0,
+        tasksCreated: 0,
+        errorCount: 0,
+        startedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else {
+      transaction.update(runRef, {
+        status: "running",
+        leaseUntil,
+        attempts: admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    return {
+      cursor: current?.cursor ?? null,
+      attempts: (current?.attempts ?? 0) + 1,
+    };
+  });
+
+  if (!run) {
+    logger.info(`[夜間タスク補充] スキップ（完了済みまたは実行中）: run=${runId}`);
+    return;
+  }
+
+  logger.info(
+    `[夜間タスク補充] run=${runId}, attempt=${run.attempts}, ` +
+    `cursor=${run.cursor ?? "先頭"}`
+  );
+
+  // タイムゾーンはユーザー・グループごとにキャッシュ
+  const timeZoneCache = new Map<string, Promise<string>>();
+  const resolveTemplateTimeZone = (template: ScheduleTemplateData) => {
+    const key = template.isGroupSchedule ?
+      `group:${template.groupId}` :
+      `user:${template.userId}`;
+    let timeZone = timeZoneCache.get(key);
+    if (!timeZone) {
+      timeZone = template.isGroupSchedule ?
+        getGroupTimeZone(db, template.groupId as string) :
+        getUserTimeZone(db, template.userId);
+      timeZoneCache.set(key, timeZone);
+    }
+    return timeZone;
+  };
+
+  let cursor = run.cursor;
+  let completed = false;
+
+  while (Date.now() - startedAt < NIGHTLY_GENERATION_TIME_BUDGET_MS) {
+    let query = db
+      .collection("schedule_templates")
+      .where("isActive", "==", true)
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(NIGHTLY_GENERATION_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const page = await query.get();
+
+    let processed = 0;
+    let skipped = 0;
+    let tasksCreated = 0;
+    let errorCount = 0;
+    let lastError: string | null = null;
+
+    for (const templateDoc of page.docs) {
+      const template = templateDoc.data() as ScheduleTemplateData;
+
+      // 繰り返しなし・カスタム繰り返し（完了時に生成）は対象外
+      if (
+        !hasRecurrence(template) ||
+        isCompletionBasedRecurrence(template) ||
+        (template.isGroupSchedule && !template.groupId)
+      ) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const timeZone = await resolveTemplateTimeZone(template);
+        const result = await generateTemplateTasks(
+          db,
+          templateDoc.id,
+          template,
+          timeZone,
+          "[夜間タスク補充]"
+        );
+        processed++;
+        tasksCreated += result.created;
+      } catch (error) {
+        // 1件の失敗で全体を止めない
+        errorCount++;
+        lastError = `${templateDoc.id}: ${(error as Error).message}`;
+        logger.error(
+          `[夜間タスク補充] テンプレート処理エラー: template=${templateDoc.id}`,
+          error
         );
+      }
+    }
+
+    if (!page.empty) {
+      cursor = page.docs[page.docs.length - 1].id;
+    }
+    completed = page.size < NIGHTLY_GENERATION_PAGE_SIZE;
+
+    // ページごとに進捗を保存（中断時はここから再開）
+    await runRef.update({
+      cursor,
+      templatesScanned: admin.firestore.FieldValue.increment(page.size),
+      templatesProcessed: admin.firestore.FieldValue.increment(processed),
+      templatesSkipped: admin.firestore.FieldValue.increment(skipped),
+      tasksCreated: admin.firestore.FieldValue.increment(tasksCreated),
+      errorCount: admin.firestore.FieldValue.increment(errorCount),
+      ...(lastError ? {lastError} : {}),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (completed) {
+      break;
+    }
+  }
+
+  await runRef.update({
+    status: completed ? "completed" : "paused",
+    ...(completed ?
+      {completedAt: admin.firestore.FieldValue.serverTimestamp()} :
+      {}),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const summary = (await runRef.get()).data();
+  logger.info(
+    `[夜間タスク補充] ${completed ? "完了" : "時間切れのため中断"}: run=${runId}`,
+    {
+      durationMs: Date.now() - startedAt,
+      templatesScanned: summary?.templatesScanned,
+      templatesProcessed: summary?.templatesProcessed,
+      templatesSkipped: summary?.templatesSkipped,
+      tasksCreated: summary?.tasksCreated,
+      errorCount: summary?.errorCount,
+    }
+  );
+}
+
+/**
+ * 管理者権限（カスタムクレーム admin: true）を確認
+ * @param {CallableRequest} request - Callable関数のリクエスト
+ * @return {string} 管理者のユーザーID
+ */
+function assertAdmin(request: CallableRequest): string {
+  const auth = request.auth;
+  if (!auth?.uid) {
+    throw new HttpsError("unauthenticated", "認証が必要です");
+  }
+  if (auth.token.admin !== true) {
+    throw new HttpsError("permission-denied", "管理者権限が必要です");
+  }
+  return auth.uid;
+}
+
+/**
+ * 重複タスクのうち残すタスクの優先度を比較
+ * 完了データあり > 論理削除されていない > 決定的ID > 作成日時が古い
+ * @param {admin.firestore.QueryDocumentSnapshot} a - 比較対象A
+ * @param {admin.firestore.QueryDocumentSnapshot} b - 比較対象B
+ * @param {string} deterministicId - 決定的ID
+ * @return {number} Aを優先する場合は負の値
+ */
+function compareDuplicateTasks(
+  a: admin.firestore.QueryDocumentSnapshot,
+  b: admin.firestore.QueryDocumentSnapshot,
+  deterministicId: string
+): number {
+  const aData = a.data();
+  const bData = b.data();
+  const aCompleted = aData.completedAt as admin.firestore.Timestamp | null;
+  const bCompleted = bData.completedAt as admin.firestore.Timestamp | null;
+  if (aCompleted && bCompleted) {
+    return aCompleted.toMillis() - bCompleted.toMillis();
+  }
+  if (aCompleted || bCompleted) {
+    return aCompleted ? -1 : 1;
+  }
+  if ((aData.isDeleted === true) !== (bData.isDeleted === true)) {
+    return aData.isDeleted === true ? 1 : -1;
+  }
+  if ((a.id === deterministicId) !== (b.id === deterministicId)) {
+    return a.id === deterministicId ? -1 : 1;
+  }
+  const aCreated = (aData.createdAt as admin.firestore.Timestamp | null)
+    ?.toMillis() ?? 0;
+  const bCreated = (bData.createdAt as admin.firestore.Timestamp | null)
+    ?.toMillis() ?? 0;
+  return aCreated - bCreated;
+}
+
+/**
+ * 重複タスクの統合で、残すタスクに欠けている場合に他のタスクから引き継ぐフィールド
+ */
+const MERGED_TASK_FIELDS = [
+  "completedAt",
+  "completedByMemberId",
+  "assigneeId",
+  "nextTaskId",
+  "generatedFromTaskId",
+];
+
+/**
+ * 残すタスクに、削除する重複タスクだけが持つ完了・紐付けのデータを引き継ぐ
+ * エスカレーションの記録は段階ごとにまとめる（残すタスクの記録を優先）
+ * @param {admin.firestore.DocumentData} keeperData - 残すタスクのデータ
+ * @param {admin.firestore.QueryDocumentSnapshot[]} duplicates - 削除するタスク
+ *   （優先する順）
+ * @return {{data: admin.firestore.DocumentData, mergedFields: string[]}}
+ *   統合後のデータと引き継いだフィールド
+ */
+function mergeDuplicateTaskData(
+  keeperData: admin.firestore.DocumentData,
+  duplicates: admin.firestore.QueryDocumentSnapshot[]
+): {data: admin.firestore.DocumentData; mergedFields: string[]} {
+  const data = {...keeperData};
+  const mergedFields: string[] = [];
+  MERGED_TASK_FIELDS.forEach((field) => {
+    if (data[field] != null) {
+      return;
+    }
+    const source = duplicates.find((doc) => doc.data()[field] != null);
+    if (source) {
+      data[field] = source.data()[field];
+      mergedFields.push(field);
+    }
+  });
+
+  const escalations: admin.firestore.DocumentData =
+    {...(keeperData.escalations ?? {})};
+  let escalationsMerged = false;
+  duplicates.forEach((doc) => {
+    Object.entries(doc.data().escalations ?? {}).forEach(([level, record]) => {
+      if (!(level in escalations)) {
+        escalations[level] = record;
+        escalationsMerged = true;
+      }
+    });
+  });
+  if (escalationsMerged) {
+    data.escalations = escalations;
+    mergedFields.push("escalations");
+  }
+  return {data, mergedFields};
+}
+
+/**
+ * 重複タスクを統合するメンテナンス用Callable関数（管理者のみ）
+ * 同じテンプレート・同じ日付のタスクが複数ある場合、完了データを持つものを残し、
+ * 他のタスクだけが持つ完了・紐付けのデータを引き継いでから他を削除する
+ * 残すタスクは決定的IDで保存し直し（自動IDのタスクは移動）、前後のタスクの紐付けも付け替える
+ * テンプレート単位でページングし、nextCursorを渡して続きから再実行できる
+ */
+export const mergeDuplicateTasks = onCall(
+  {region: "asia-northeast1", timeoutSeconds: 540},
+  async (request) => {
+    const adminId = assertAdmin(request);
+
+    const {dryRun = true, startAfterTemplateId, limit = 50} =
+      (request.data ?? {}) as {
+        dryRun?: boolean;
+        startAfterTemplateId?: string;
+        limit?: number;
+      };
+    const pageSize = Math.min(Math.max(limit, 1), 200);
+
+    logger.info(
+      `[重複タスク統合] 開始 admin: ${adminId}, dryRun: ${dryRun}, ` +
+      `cursor: ${startAfterTemplateId ?? "先頭"}`
+    );
+
+    const db = admin.firestore();
+
+    try {
+      let query = db
+        .collection("schedule_templates")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(pageSize);
+      if (startAfterTemplateId) {
+        query = query.startAfter(startAfterTemplateId);
+      }
+      const templatesSnapshot = await query.get();
+
+      const details: {
+        templateId: string;
+        dateKey: string;
+        keptTaskId: string;
+        // 決定的IDに移動した場合の元のID
+        movedFromTaskId: string | null;
+        removedTaskIds: string[];
+        mergedFields: string[];
+        // 紐付け（nextTaskId・generatedFromTaskId）を付け替えた前後のタスク
+        relinkedTaskIds: string[];
+      }[] = [];
+      let duplicateGroups = 0;
+      let tasksRemoved = 0;
+      let tasksMoved = 0;
+
+      for (const templateDoc of templatesSnapshot.docs) {
+        const template = templateDoc.data() as ScheduleTemplateData;
+        const timeZone = template.isGroupSchedule && template.groupId ?
+          await getGroupTimeZone(db, template.groupId) :
+          await getUserTimeZone(db, template.userId);
 
-        // 既存タスクの日付を取得（期間内のすべて）
-        const existingTaskSnapshot = await db
+        const tasksSnapshot = await db
           .collection("tasks")
-          .where("groupId", "==", groupId)
           .where("templateId", "==", templateDoc.id)
-          .where(
-            "scheduledDate",
-            ">=",
-            admin.firestore.Timestamp.fromDate(startDate)
-          )
-          .where(
-            "scheduledDate",
-            "<=",
-            admin.firestore.Timestamp.fromDate(endDate)
-          )
           .get();
 
-        // 既存タスクの日付セット作成(isDeleted含む=再生成防止)
-        const existingDates = new Set<string>();
-        existingTaskSnapshot.docs.forEach((doc) => {
-          const taskData = doc.data();
-          // 論理削除タスクも含める(削除済み日付への再生成を防止)
-          const sd = taskData.scheduledDate as admin.firestore.Timestamp;
-          const scheduledDate = sd.toDate();
-          const year = scheduledDate.getFullYear();
-          const month = (scheduledDate.getMonth() + 1)
-            .toString().padStart(2, "0");
-          const day = scheduledDate.getDate().toString().padStart(2, "0");
-          const dateKey = `${year}-${month}-${day}`;
-          existingDates.add(dateKey);
+        // 所有者（個人/グループ）と日付ごとにまとめる
+        const byOwnerAndDate =
+          new Map<string, admin.firestore.QueryDocumentSnapshot[]>();
+        tasksSnapshot.docs.forEach((doc) => {
+          const data = doc.data();
+          const scheduledDate = data.scheduledDate as
+            admin.firestore.Timestamp | undefined;
+          if (!scheduledDate) {
+            return;
+          }
+          const owner = data.groupId ?? data.userId ?? "";
+          const dateKey = toZonedDateKey(scheduledDate.toDate(), timeZone);
+          const key = `${owner}|${dateKey}`;
+          const docs = byOwnerAndDate.get(key) ?? [];
+          docs.push(doc);
+          byOwnerAndDate.set(key, docs);
         });
 
-        if (existingDates.size > 0) {
-          logger.info(
-            "[グループタスク生成] 既存タスク検出: " +
-            `template=${templateDoc.id}, count=${existingDates.size}`
-          );
-        }
-        // カスタム繰り返しの場合のみ、最後のタスク日を取得
-        let lastTaskDate: Date | null = null;
-        if (template.repeatType === RepeatType.CUSTOM) {
-          const lastTaskSnapshot = await db
-            .collection("tasks")
-            .where("groupId", "==", groupId)
-            .where("templateId", "==", templateDoc.id)
-            .orderBy("scheduledDate", "desc")
-            .limit(1)
-            .get();
-
-          lastTaskDate = !lastTaskSnapshot.empty ?
-            (lastTaskSnapshot.docs[0].data()
-              .scheduledDate as admin.firestore.Timestamp).toDate() :
-            null;
-
-          const lastTaskDateStr = lastTaskDate ?
-            lastTaskDate.toISOString() : "なし";
-          logger.info(
-            "[グループタスク生成] カスタム繰り返し最終タスク日: " +
-              `template=${templateDoc.id}, lastTaskDate=${lastTaskDateStr}`
+        let batch = db.batch();
+        let batchSize = 0;
+        // 統合済みのタスクIDと残したタスクのID（同じテンプレートの前後のタスクの付け替え用）
+        const mergedInto = new Map<string, string>();
+
+        for (const [key, docs] of byOwnerAndDate) {
+          if (docs.length < 2) {
+            continue;
+          }
+          const dateKey = key.split("|")[1];
+          const deterministicId = buildTaskId(templateDoc.id, dateKey);
+          const [keeper, ...duplicates] = docs.sort((a, b) =>
+            compareDuplicateTasks(a, b, deterministicId)
           );
-        }
+          const {data, mergedFields} =
+            mergeDuplicateTaskData(keeper.data(), duplicates);
+          const moved = keeper.id !== deterministicId;
+          const survivorRef = db.collection("tasks").doc(deterministicId);
+          const removed = docs.filter((doc) => doc.id !== deterministicId);
+
+          // 統合するタスクを指している前後のタスクを、残すタスクに付け替える
+          const groupIds = new Set(docs.map((doc) => doc.id));
+          const linkedIds = new Set<string>();
+          docs.forEach((doc) => {
+            [doc.data().nextTaskId, doc.data().generatedFromTaskId]
+              .forEach((id) => {
+                if (
+                  typeof id === "string" &&
+                  !groupIds.has(id) &&
+                  !mergedInto.has(id)
+                ) {
+                  linkedIds.add(id);
+                }
+              });
+          });
+          const linkedDocs = linkedIds.size > 0 ?
+            await db.getAll(...[...linkedIds].map((id) =>
+              db.collection("tasks").doc(id)
+            )) :
+            [];
+          const relinks: {
+            ref: admin.firestore.DocumentReference;
+            data: admin.firestore.DocumentData;
+          }[] = [];
+          linkedDocs.forEach((doc) => {
+            const linked = doc.data();
+            if (!linked) {
+              return;
+            }
+            const update: admin.firestore.DocumentData = {};
+            if (
+              groupIds.has(linked.nextTaskId) &&
+              linked.nextTaskId !== deterministicId
+            ) {
+              update.nextTaskId = deterministicId;
+            }
+            if (
+              groupIds.has(linked.generatedFromTaskId) &&
+              linked.generatedFromTaskId !== deterministicId
+            ) {
+              update.generatedFromTaskId = deterministicId;
+            }
+            if (Object.keys(update).length > 0) {
+              relinks.push({ref: doc.ref, data: update});
+            }
+          });
+          // 紐付けが統合するタスク自身・統合済みのタスクを指す場合は、残したタスクに揃える
+          ["nextTaskId", "generatedFromTaskId"].forEach((field) => {
+            if (groupIds.has(data[field])) {
+              data[field] = deterministicId;
+            } else if (mergedInto.has(data[field])) {
+              data[field] = mergedInto.get(data[field]);
+            }
+          });
+          docs.forEach((doc) => mergedInto.set(doc.id, deterministicId));
 
-        // この月のタスク日付リストを生成
-        const taskDates = generateTaskDatesForMonth(
-          template,
-          startDate,
-          endDate,
-          lastTaskDate
-        );
+          duplicateGroups++;
+          tasksRemoved += removed.length;
+          if (moved) {
+            tasksMoved++;
+          }
+          if (details.length < 200 || moved) {
+            details.push({
+              templateId: templateDoc.id,
+              dateKey,
+              keptTaskId: deterministicId,
+              movedFromTaskId: moved ? keeper.id : null,
+              removedTaskIds: removed.map((doc) => doc.id),
+              mergedFields,
+              relinkedTaskIds: relinks.map((relink) => relink.ref.id),
+            });
+          }
 
-        // 日ごとに重複チェックしてタスクを作成
-        let createdCount = 0;
-        for (const taskDate of taskDates) {
-          const year = taskDate.getFullYear();
-          const month = (taskDate.getMonth() + 1)
-            .toString().padStart(2, "0");
-          const day = taskDate.getDate().toString().padStart(2, "0");
-          const dateKey = `${year}-${month}-${day}`;
-
-          // この日付が既に存在する場合はスキップ
-          if (existingDates.has(dateKey)) {
+          if (dryRun) {
             continue;
           }
 
-          // グループタスクを作成(userIdはnull)
-          await db.collection("tasks").add({
-            userId: null, // グループタスクはuserIdをnullに
-            templateId: templateDoc.id,
-            title: template.title,
-            description: template.description,
-            scheduledDate: admin.firestore.Timestamp.fromDate(taskDate),
-            completedAt: null,
-            completedByMemberId: null,
-            groupId: groupId,
-            isGroupSchedule: true,
-            isDeleted: false,
-            repeatType: template.repeatType,
-            weekdays: template.selectedWeekdays || null,
-            repeatInterval: template.repeatInterval || null,
-            monthlyDay: template.monthlyDay || null,
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          });
-
-          createdCount++;
-          totalTasksCreated++;
+          // 1つの重複グループの書き込みは同じバッチにまとめる
+          const writeCount = removed.length + relinks.length + 1;
+          if (batchSize + writeCount > 450) {
+            await batch.commit();
+            batch = db.batch();
+            batchSize = 0;
+          }
+          if (!moved) {
+            const keeperData = keeper.data();
+            const changes = Object.fromEntries(
+              [...MERGED_TASK_FIELDS, "escalations"]
+                .filter((field) => data[field] !== keeperData[field])
+                .map((field) => [field, data[field]])
+            );
+            if (Object.keys(changes).length > 0) {
+              batch.update(survivorRef, changes);
+            }
+          } else if (groupIds.has(deterministicId)) {
+            // 決定的IDのタスクが重複の側にある場合は、残すタスクの内容で置き換える
+            batch.set(survivorRef, data);
+          } else {
+            batch.create(survivorRef, data);
+          }
+          removed.forEach((doc) => batch.delete(doc.ref));
+          relinks.forEach((relink) => batch.update(relink.ref, relink.data));
+          batchSize += writeCount;
         }
 
-        logger.info(
-          "[グループタスク生成] 完了: " +
-          `template=${templateDoc.id}, ` +
-          `created=${createdCount}/${taskDates.length}`
-        );
+        if (batchSize > 0) {
+          await batch.commit();
+        }
       }
 
+      const nextCursor = templatesSnapshot.size === pageSize ?
+        templatesSnapshot.docs[templatesSnapshot.size - 1].id :
+        null;
+
       logger.info(
-        `[グループタスク生成] 完了 groupId: ${groupId}, 作成数: ${totalTasksCreated}`
+        `[重複タスク統合] 完了 dryRun: ${dryRun}, ` +
+        `templates: ${templatesSnapshot.size}, ` +
+        `groups: ${duplicateGroups}, removed: ${tasksRemoved}, ` +
+        `moved: ${tasksMoved}`
       );
       return {
         success: true,
-        tasksCreated: totalTasksCreated,
-        message: `${totalTasksCreated}件のタスクを生成しました`,
+        dryRun,
+        templatesScanned: templatesSnapshot.size,
+        duplicateGroups,
+        tasksRemoved,
+        tasksMoved,
+        nextCursor,
+        details,
       };
     } catch (error) {
-      if (error instanceof HttpsError) {
-        throw error;
+      logger.error("[重複タスク統合] エラー", error);
+      throw new HttpsError("internal", "重複タスクの統合に失敗しました");
+    }
+  }
+);
+
+/**
+ * tasksドキュメントを現在のスキーマに移行するメンテナンス用Callable関数（管理者のみ）
+ * 旧フィールド（isGroupTask・groupCompletedAt）を移して削除し、欠けているフィールドを補う
+ * ドキュメントID順にページングし、nextCursorを渡して続きから再実行できる
+ * dryRunの場合は書き込まずに変更内容のレポートのみ返す
+ */
+export const migrateTaskSchema = onCall(
+  {region: "asia-northeast1", timeoutSeconds: 540},
+  async (request) => {
+    const adminId = assertAdmin(request);
+
+    const {dryRun = true, startAfterTaskId, limit = 200} =
+      (request.data ?? {}) as {
+        dryRun?: boolean;
+        startAfterTaskId?: string;
+        limit?: number;
+      };
+    const pageSize = Math.min(Math.max(limit, 1), 500);
+
+    logger.info(
+      `[タスクスキーマ移行] 開始 admin: ${adminId}, dryRun: ${dryRun}, ` +
+      `cursor: ${startAfterTaskId ?? "先頭"}`
+    );
+
+    const db = admin.firestore();
+
+    try {
+      let query = db
+        .collection("tasks")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(pageSize);
+      if (startAfterTaskId) {
+        query = query.startAfter(startAfterTaskId);
       }
-      logger.error(`[グループタスク生成] エラー groupId: ${groupId}`, error);
-      throw new HttpsError("internal", "タスク生成に失敗しました");
+      const tasksSnapshot = await query.get();
+
+      // フィールドごとの変更件数と、変更するタスクの例
+      const changeCounts: Record<string, number> = {};
+      const details: {taskId: string; changes: string[]}[] = [];
+      let tasksMigrated = 0;
+
+      let batch = db.batch();
+      let batchSize = 0;
+
+      for (const doc of tasksSnapshot.docs) {
+        const {updates, changes} = normalizeTaskData(doc.data());
+        if (changes.length === 0) {
+          continue;
+        }
+
+        tasksMigrated++;
+        changes.forEach((field) => {
+          changeCounts[field] = (changeCounts[field] ?? 0) + 1;
+        });
+        if (details.length < 200) {
+          details.push({taskId: doc.id, changes});
+        }
+
+        if (dryRun) {
+          continue;
+        }
+
+        batch.update(doc.ref, updates);
+        batchSize++;
+        if (batchSize >= 450) {
+          await batch.commit();
+          batch = db.batch();
+          batchSize = 0;
+        }
+      }
+
+      if (batchSize > 0) {
+        await batch.commit();
+      }
+
+      const nextCursor = tasksSnapshot.size === pageSize ?
+        tasksSnapshot.docs[tasksSnapshot.size - 1].id :
+        null;
+
+      logger.info(
+        `[タスクスキーマ移行] 完了 dryRun: ${dryRun}, ` +
+        `scanned: ${tasksSnapshot.size}, migrated: ${tasksMigrated}`,
+        {changeCounts}
+      );
+      return {
+        success: true,
+        dryRun,
+        schemaVersion: TASK_SCHEMA_VERSION,
+        tasksScanned: tasksSnapshot.size,
+        tasksMigrated,
+        changeCounts,
+        nextCursor,
+        details,
+      };
+    } catch (error) {
+      logger.error("[タスクスキーマ移行] エラー", error);
+      throw new HttpsError("internal", "タスクのスキーマ移行に失敗しました");
     }
   }
 );
 
+/**
+ * 旧予定データ（users/{userId}/schedules・completion_history）を
+ * schedule_templates・tasksに移行するメンテナンス用Callable関数（管理者のみ）
+ * ユーザー単位でページングし、nextCursorを渡して続きから再実行できる
+ * 移行済みの旧データはスキップするため、同じ範囲を再実行しても重複しない
+ */
+export const migrateLegacySchedules = onCall(
+  {region: "asia-northeast1", timeoutSeconds: 540},
+  async (request) => {
+    const adminId = assertAdmin(request);
+
+    const {dryRun = true, startAfterUserId, limit = 20} =
+      (request.data ?? {}) as {
+        dryRun?: boolean;
+        startAfterUserId?: string;
+        limit?: number;
+      };
+    const pageSize = Math.min(Math.max(limit, 1), 100);
+
+    logger.info(
+      `[旧予定データ移行] 開始 admin: ${adminId}, dryRun: ${dryRun}, ` +
+      `cursor: ${startAfterUserId ?? "先頭"}`
+    );
+
+    const db = admin.firestore();
+
+    try {
+      let query = db
+        .collection("users")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(pageSize);
+      if (startAfterUserId) {
+        query = query.startAfter(startAfterUserId);
+      }
+      const usersSnapshot = await query.get();
+
+      const report = createLegacyMigrationReport();
+      for (const userDoc of usersSnapshot.docs) {
+        await migrateUserLegacySchedules(db, userDoc.id, dryRun, report);
+      }
+
+      const nextCursor = usersSnapshot.size === pageSize ?
+        usersSnapshot.docs[usersSnapshot.size - 1].id :
+        null;
+
+      logger.info(
+        `[旧予定データ移行] 完了 dryRun: ${dryRun}, ` +
+        `users: ${usersSnapshot.size}, ` +
+        `templates: ${report.templatesCreated}, ` +
+        `completedTasks: ${report.tasksCompleted}`
+      );
+      return {
+        success: true,
+        dryRun,
+        usersScanned: usersSnapshot.size,
+        ...report,
+        nextCursor,
+      };
+    } catch (error) {
+      logger.error("[旧予定データ移行] エラー", error);
+      throw new HttpsError("internal", "旧予定データの移行に失敗しました");
+    }
+  }
+);
+
+/**
+ * 既存のタスクを完了統計の日ごとの集計とメンバーごとの完了数に反映する
+ * メンテナンス用Callable関数（管理者のみ）
+ * updateTaskStats・updateGroupContributionsを導入する前のタスクを集計するために使う
+ * 集計済みのタスクは差分がないためスキップされ、同じ範囲を再実行しても二重に数えない
+ * ドキュメントID順にページングし、nextCursorを渡して続きから再実行できる
+ * dryRunの場合は書き込まずに未集計のタスク数のみ返す
+ */
+export const backfillTaskStats = onCall(
+  {region: "asia-northeast1", timeoutSeconds: 540},
+  async (request) => {
+    const adminId = assertAdmin(request);
+
+    const {dryRun = true, startAfterTaskId, limit = 200} =
+      (request.data ?? {}) as {
+        dryRun?: boolean;
+        startAfterTaskId?: string;
+        limit?: number;
+      };
+    const pageSize = Math.min(Math.max(limit, 1), 500);
+
+    logger.info(
+      `[完了統計] バックフィル開始 admin: ${adminId}, dryRun: ${dryRun}, ` +
+      `cursor: ${startAfterTaskId ?? "先頭"}`
+    );
+
+    const db = admin.firestore();
+
+    try {
+      let query = db
+        .collection("tasks")
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .limit(pageSize);
+      if (startAfterTaskId) {
+        query = query.startAfter(startAfterTaskId);
+      }
+      const tasksSnapshot = await query.get();
+
+      let tasksMissing = 0;
+      let tasksUpdated = 0;
+      if (dryRun) {
+        const entryRefs = tasksSnapshot.docs.map((doc) =>
+          db.collection(TASK_STATS_ENTRIES_COLLECTION).doc(doc.id)
+        );
+        const entryDocs =
+          entryRefs.length > 0 ? await db.getAll(...entryRefs) : [];
+        tasksMissing = entryDocs.filter((doc) => !doc.exists).length;
+      } else {
+        for (const doc of tasksSnapshot.docs) {
+          const updatedCount = await applyTaskStats(db, doc.id);
+          const groupId = doc.data().groupId as string | undefined;
+          const contributionUpdated = groupId ?
+            await applyGroupContribution(db, doc.id, groupId) :
+            false;
+          if (updatedCount > 0 || contributionUpdated) {
+            tasksUpdated++;
+          }
+        }
+      }
+
+      const nextCursor = tasksSnapshot.size === pageSize ?
+        tasksSnapshot.docs[tasksSnapshot.size - 1].id :
+        null;
+
+      logger.info(
+        `[完了統計] バックフィル完了 dryRun: ${dryRun}, ` +
+        `scanned: ${tasksSnapshot.size}, missing: ${tasksMissing}, ` +
+        `updated: ${tasksUpdated}`
+      );
+      return {
+        success: true,
+        dryRun,
+        tasksScanned: tasksSnapshot.size,
+        tasksMissing,
+        tasksUpdated,
+        nextCursor,
+      };
+    } catch (error) {
+      logger.error("[完了統計] バックフィルエラー", error);
+      throw new HttpsError("internal", "完了統計のバックフィルに失敗しました");
+    }
+  }
+);
+
+/**
+ * タスクのiCalendarフィード（読み取り専用）
+ * Googleカレンダー・Appleカレンダーなどから購読する
+ * 個人: /icsFeed?user={userId}&token={token}
+ * グループ: /icsFeed?group={groupId}&token={token}
+ * トークンはrotateIcsFeedTokenで発行・再発行・無効化する
+ */
+export const icsFeed = onRequest(
+  {region: "asia-northeast1"},
+  async (req, res) => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.status(405).send("Method Not Allowed");
+      return;
+    }
+
+    const userId = typeof req.query.user === "string" ? req.query.user : "";
+    const groupId = typeof req.query.group === "string" ? req.query.group : "";
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    if (!token || (!userId === !groupId)) {
+      res.status(400).send("Bad Request");
+      return;
+    }
+
+    const scope: FeedScope = groupId ? "group" : "user";
+    const ownerId = groupId || userId;
+    const db = admin.firestore();
+
+    try {
+      const ownerDoc = await db
+        .collection(scope === "group" ? "groups" : "users")
+        .doc(ownerId)
+        .get();
+      const ownerData = ownerDoc.data();
+
+      // 存在しない場合もトークン不一致と同じ応答にする
+      if (
+        !ownerData ||
+        !verifyFeedToken(token, ownerData[FEED_TOKEN_HASH_FIELD])
+      ) {
+        res.status(404).send("Not Found");
+        return;
+      }
+
+      let timeZone: string;
+      let name: string;
+      if (scope === "group") {
+        if (ownerData.isActive === false) {
+          res.status(404).send("Not Found");
+          return;
+        }
+        timeZone = await getGroupTimeZone(db, ownerId);
+        name = (ownerData.name as string | undefined) || "グループのタスク";
+      } else {
+        timeZone = resolveTimeZone(ownerData.timeZone);
+        const displayName = ownerData.displayName as string | undefined;
+        name = displayName ? `${displayName}のタスク` : "お知らせ君のタスク";
+      }
+
+      const body = await buildTaskFeed(db, scope, ownerId, name, timeZone);
+
+      res.set("Content-Type", "text/calendar; charset=utf-8");
+      res.set("Content-Disposition", "inline; filename=\"tasks.ics\"");
+      res.set("Cache-Control", "private, max-age=900");
+      res.status(200).send(body);
+    } catch (error) {
+      logger.error(`[ICSフィード] エラー ${scope}: ${ownerId}`, error);
+      res.status(500).send("Internal Server Error");
+    }
+  }
+);
+
+/**
+ * iCalendarフィードのトークンを発行・再発行・無効化
+ * 再発行すると以前のURLは使えなくなる
+ * グループのフィードはオーナー・管理者のみ操作できる
+ * トークンは保存しないため、発行時のレスポンスでのみ返す
+ */
+export const rotateIcsFeedToken = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {groupId, revoke = false} = (request.data ?? {}) as {
+      groupId?: string;
+      revoke?: boolean;
+    };
+    const scope: FeedScope = groupId ? "group" : "user";
+    const db = admin.firestore();
+
+    try {
+      let ownerRef: admin.firestore.DocumentReference;
+      if (groupId) {
+        ownerRef = db.collection("groups").doc(groupId);
+        const groupDoc = await ownerRef.get();
+        if (!groupDoc.exists) {
+          throw new HttpsError("not-found", "グループが見つかりません");
+        }
+        if (!isGroupMember(groupDoc.data(), userId)) {
+          throw new HttpsError(
+            "permission-denied",
+            "このグループのメンバーではありません"
+          );
+        }
+        if (!canManageGroup(groupDoc.data(), userId)) {
+          throw new HttpsError(
+            "permission-denied",
+            "フィードの管理はオーナーまたは管理者のみ可能です"
+          );
+        }
+      } else {
+        ownerRef = db.collection("users").doc(userId);
+      }
+
+      if (revoke) {
+        await ownerRef.set(
+          {[FEED_TOKEN_HASH_FIELD]: admin.firestore.FieldValue.delete()},
+          {merge: true}
+        );
+        logger.info(`[ICSフィード] トークン無効化 ${scope}: ${ownerRef.id}`);
+        return {success: true, revoked: true};
+      }
+
+      const {token, tokenHash} = createFeedToken();
+      await ownerRef.set({[FEED_TOKEN_HASH_FIELD]: tokenHash}, {merge: true});
+      logger.info(`[ICSフィード] トークン発行 ${scope}: ${ownerRef.id}`);
+
+      const projectId = process.env.GCLOUD_PROJECT;
+      const query = `${scope}=${encodeURIComponent(ownerRef.id)}` +
+        `&token=${encodeURIComponent(token)}`;
+      return {
+        success: true,
+        revoked: false,
+        token,
+        url: projectId ?
+          `https://asia-northeast1-${projectId}.cloudfunctions.net/icsFeed?${query}` :
+          null,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[ICSフィード] トークン発行エラー ${scope}`, error);
+      throw new HttpsError("internal", "フィードのトークン発行に失敗しました");
+    }
+  }
+);
+
+/**
+ * グループの遅延エスカレーションの設定を更新
+ * オーナー・管理者のみ操作できる
+ * levelsを省略した場合は1日後に担当者、3日後にオーナー・管理者に通知する
+ */
+export const updateGroupEscalationPolicy = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {groupId, policy} = (request.data ?? {}) as {
+      groupId?: string;
+      policy?: unknown;
+    };
+    if (!groupId) {
+      throw new HttpsError("invalid-argument", "groupIdが必要です");
+    }
+    const escalationPolicy = parseEscalationPolicy(policy);
+    if (!escalationPolicy) {
+      throw new HttpsError(
+        "invalid-argument",
+        "エスカレーションの設定が正しくありません " +
+        `（段階は${MAX_ESCALATION_LEVELS}件まで、日数は重複不可）`
+      );
+    }
+
+    const db = admin.firestore();
+
+    try {
+      const groupRef = db.collection("groups").doc(groupId);
+      const groupDoc = await groupRef.get();
+      if (!groupDoc.exists) {
+        throw new HttpsError("not-found", "グループが見つかりません");
+      }
+      if (!canManageGroup(groupDoc.data(), userId)) {
+        throw new HttpsError(
+          "permission-denied",
+          "エスカレーションの設定はオーナーまたは管理者のみ可能です"
+        );
+      }
+
+      await groupRef.update({
+        [ESCALATION_POLICY_FIELD]: escalationPolicy,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      logger.info(
+        `[遅延エスカレーション] 設定更新 group: ${groupId}, ` +
+        `enabled: ${escalationPolicy.enabled}`
+      );
+      return {success: true, policy: escalationPolicy};
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[遅延エスカレーション] 設定更新エラー ${groupId}`, error);
+      throw new HttpsError("internal", "エスカレーションの設定に失敗しました");
+    }
+  }
+);
+
+/**
+ * ICSインポートで一度に作成できるテンプレートの上限
+ */
+const MAX_ICS_IMPORT_TEMPLATES = 100;
+
+/**
+ * ICSインポートで受け付けるファイルサイズの上限（文字数）
+ */
+const MAX_ICS_IMPORT_LENGTH = 1_000_000;
+
+/**
+ * iCalendarファイルから繰り返し予定のテンプレートを一括作成
+ * 各VEVENTのDTSTART・RRULE・EXDATEをテンプレートのrruleに変換し、
+ * 作成後はgenerateTasksForTemplateと同じく14日先までのタスクを生成する
+ * 取り込めないイベントはunsupportedとして理由を返す
+ * 同じUIDのイベントを取り込み済みの場合はスキップする（再インポート可能）
+ * dryRun=trueの場合は書き込まずに作成予定の内容のみを返す
+ */
+export const importIcs = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {ics, groupId, dryRun = false} = (request.data ?? {}) as {
+      ics?: string;
+      groupId?: string;
+      dryRun?: boolean;
+    };
+    if (typeof ics !== "string" || ics.trim().length === 0) {
+      throw new HttpsError("invalid-argument", "icsが必要です");
+    }
+    if (ics.length > MAX_ICS_IMPORT_LENGTH) {
+      throw new HttpsError("invalid-argument", "ファイルが大きすぎます");
+    }
+
+    const logPrefix = "[ICSインポート]";
+    const db = admin.firestore();
+
+    try {
+      let timeZone: string;
+      if (groupId) {
+        const groupDoc = await db.collection("groups").doc(groupId).get();
+        if (!groupDoc.exists) {
+          throw new HttpsError("not-found", "グループが見つかりません");
+        }
+        if (!canManageGroup(groupDoc.data(), userId)) {
+          throw new HttpsError(
+            "permission-denied",
+            "グループへのインポートはオーナーまたは管理者のみ可能です"
+          );
+        }
+        timeZone = await getGroupTimeZone(db, groupId);
+      } else {
+        timeZone = await getUserTimeZone(db, userId);
+      }
+
+      const plan = planIcsImport(ics, timeZone);
+      if (plan.templates.length > MAX_ICS_IMPORT_TEMPLATES) {
+        throw new HttpsError(
+          "invalid-argument",
+          `一度にインポートできるのは${MAX_ICS_IMPORT_TEMPLATES}件までです`
+        );
+      }
+
+      // 取り込み済みのUIDを取得
+      const ownerTemplates = groupId ?
+        db.collection("schedule_templates").where("groupId", "==", groupId) :
+        db.collection("schedule_templates")
+          .where("userId", "==", userId)
+          .where("isGroupSchedule", "==", false);
+      const existingSnapshot = await ownerTemplates.select("icsUid").get();
+      const importedUids = new Set(
+        existingSnapshot.docs
+          .map((doc) => doc.data().icsUid as string | undefined)
+          .filter((uid): uid is string => !!uid)
+      );
+
+      const templates = plan.templates
+        .filter((t) => !t.uid || !importedUids.has(t.uid));
+      const skipped = plan.templates
+        .filter((t) => t.uid && importedUids.has(t.uid))
+        .map((t) => ({uid: t.uid, title: t.title}));
+
+      logger.info(
+        `${logPrefix} userId: ${userId}, groupId: ${groupId ?? "なし"}, ` +
+        `dryRun: ${dryRun}, templates: ${templates.length}, ` +
+        `unsupported: ${plan.unsupported.length}, skipped: ${skipped.length}`
+      );
+
+      if (dryRun) {
+        return {
+          success: true,
+          dryRun,
+          templates,
+          unsupported: plan.unsupported,
+          skipped,
+          templatesCreated: 0,
+          tasksCreated: 0,
+        };
+      }
+
+      const created: {templateId: string; uid: string | null; title: string}[] =
+        [];
+      let tasksCreated = 0;
+      for (const planned of templates) {
+        const templateRef = db.collection("schedule_templates").doc();
+        const template: ScheduleTemplateData = {
+          id: templateRef.id,
+          userId,
+          title: planned.title,
+          description: planned.description,
+          repeatType: planned.repeatType,
+          selectedWeekdays: planned.selectedWeekdays ?? undefined,
+          monthlyDay: planned.monthlyDay ?? undefined,
+          rrule: planned.rrule,
+          requiresCompletion: false,
+          isActive: true,
+          isGroupSchedule: !!groupId,
+          groupId: groupId ?? undefined,
+        };
+
+        await templateRef.set({
+          userId,
+          title: planned.title,
+          description: planned.description,
+          repeatType: planned.repeatType,
+          repeatInterval: null,
+          selectedWeekdays: planned.selectedWeekdays,
+          monthlyDay: planned.monthlyDay,
+          rrule: planned.rrule,
+          requiresCompletion: false,
+          isActive: true,
+          groupId: groupId ?? null,
+          isGroupSchedule: !!groupId,
+          icsUid: planned.uid,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        const result = await generateTemplateTasks(
+          db,
+          templateRef.id,
+          template,
+          timeZone,
+          logPrefix
+        );
+        tasksCreated += result.created;
+        created.push({
+          templateId: templateRef.id,
+          uid: planned.uid,
+          title: planned.title,
+        });
+      }
+
+      logger.info(
+        `${logPrefix} 完了 templates: ${created.length}, tasks: ${tasksCreated}`
+      );
+      return {
+        success: true,
+        dryRun,
+        templates: created,
+        unsupported: plan.unsupported,
+        skipped,
+        templatesCreated: created.length,
+        tasksCreated,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`${logPrefix} エラー userId: ${userId}`, error);
+      throw new HttpsError("internal", "ICSのインポートに失敗しました");
+    }
+  }
+);
+
+/**
+ * スヌーズできる最大時間（分）
+ */
+const MAX_SNOOZE_MINUTES = 24 * 60;
+
+/**
+ * 操作対象のタスクを取得し、権限を確認
+ * グループタスクはグループのメンバー、個人タスクは所有者のみ操作できる
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {unknown} taskId - タスクID
+ * @param {string} userId - 操作するユーザーID
+ * @return {Promise<Object>} タスクの参照・データ・タイムゾーン
+ */
+async function getAccessibleTask(
+  db: admin.firestore.Firestore,
+  taskId: unknown,
+  userId: string
+): Promise<{
+  taskRef: admin.firestore.DocumentReference;
+  task: admin.firestore.DocumentData;
+  timeZone: string;
+}> {
+  if (typeof taskId !== "string" || taskId.length === 0) {
+    throw new HttpsError("invalid-argument", "taskIdが必要です");
+  }
+
+  const taskRef = db.collection("tasks").doc(taskId);
+  const taskDoc = await taskRef.get();
+  const task = taskDoc.data();
+  if (!task || task.isDeleted === true) {
+    throw new HttpsError("not-found", "タスクが見つかりません");
+  }
+
+  if (task.isGroupSchedule && task.groupId) {
+    const groupDoc = await db.collection("groups").doc(task.groupId).get();
+    if (!groupDoc.exists) {
+      throw new HttpsError("not-found", "グループが見つかりません");
+    }
+    if (!isGroupMember(groupDoc.data(), userId)) {
+      throw new HttpsError(
+        "permission-denied",
+        "このグループのメンバーではありません"
+      );
+    }
+    return {taskRef, task, timeZone: await getGroupTimeZone(db, task.groupId)};
+  }
+
+  if (task.userId !== userId) {
+    throw new HttpsError(
+      "permission-denied",
+      "このタスクにアクセスする権限がありません"
+    );
+  }
+  return {taskRef, task, timeZone: await getUserTimeZone(db, userId)};
+}
+
+/**
+ * 通知のアクションボタンからタスクを完了
+ * カスタム繰り返しの次回タスクはgenerateNextCustomTaskで生成される
+ */
+export const completeTaskFromNotification = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {taskId} = (request.data ?? {}) as {taskId?: string};
+    const db = admin.firestore();
+
+    try {
+      const {taskRef} = await getAccessibleTask(db, taskId, userId);
+
+      const completed = await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(taskRef);
+        if (current.data()?.completedAt) {
+          return false;
+        }
+        transaction.update(taskRef, {
+          completedAt: admin.firestore.FieldValue.serverTimestamp(),
+          completedByMemberId: userId,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+
+      logger.info(
+        `[通知アクション] 完了 task=${taskRef.id}, user=${userId}, ` +
+        `completed=${completed}`
+      );
+      return {success: true, alreadyCompleted: !completed};
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[通知アクション] 完了エラー task=${taskId}`, error);
+      throw new HttpsError("internal", "タスクの完了に失敗しました");
+    }
+  }
+);
+
+/**
+ * タスクのリマインダーをN分またはN時間後に再通知（スヌーズ）
+ * minutesとhoursのどちらか（または両方の合計）で指定する
+ */
+export const snoozeTask = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {taskId, minutes = 0, hours = 0} = (request.data ?? {}) as {
+      taskId?: string;
+      minutes?: number;
+      hours?: number;
+    };
+    const totalMinutes = Number(minutes) + Number(hours) * 60;
+    if (
+      !Number.isInteger(totalMinutes) ||
+      totalMinutes < 1 ||
+      totalMinutes > MAX_SNOOZE_MINUTES
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        `スヌーズは1分から${MAX_SNOOZE_MINUTES / 60}時間までの整数で指定してください`
+      );
+    }
+
+    const db = admin.firestore();
+
+    try {
+      const {taskRef, task} = await getAccessibleTask(db, taskId, userId);
+      if (task.completedAt) {
+        throw new HttpsError(
+          "failed-precondition",
+          "完了済みのタスクはスヌーズできません"
+        );
+      }
+
+      const snoozeUntil = new Date(Date.now() + totalMinutes * 60 * 1000);
+      await taskRef.update({
+        nextReminderAt: admin.firestore.Timestamp.fromDate(snoozeUntil),
+        reminderStatus: "pending",
+        snoozedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      logger.info(
+        `[通知アクション] スヌーズ task=${taskRef.id}, user=${userId}, ` +
+        `minutes=${totalMinutes}`
+      );
+      return {success: true, snoozeUntil: snoozeUntil.toISOString()};
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[通知アクション] スヌーズエラー task=${taskId}`, error);
+      throw new HttpsError("internal", "スヌーズに失敗しました");
+    }
+  }
+);
+
+/**
+ * タスクを明日（所有者のタイムゾーン）に延期
+ * remindAtが設定されている場合は明日のその時刻にリマインダーを再設定する
+ */
+export const postponeTaskToTomorrow = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {taskId} = (request.data ?? {}) as {taskId?: string};
+    const db = admin.firestore();
+
+    try {
+      const {taskRef, task, timeZone} =
+        await getAccessibleTask(db, taskId, userId);
+      if (task.completedAt) {
+        throw new HttpsError(
+          "failed-precondition",
+          "完了済みのタスクは延期できません"
+        );
+      }
+
+      const today = toZonedCalendarDate(new Date(), timeZone);
+      const tomorrow = new Date(
+        today.getFullYear(),
+        today.getMonth(),
+        today.getDate() + 1
+      );
+      const scheduledDate = calendarDateToZonedMidnight(tomorrow, timeZone);
+
+      const update: admin.firestore.UpdateData<admin.firestore.DocumentData> = {
+        scheduledDate: admin.firestore.Timestamp.fromDate(scheduledDate),
+        // 最初の予定日を残す（複数回延期しても上書きしない）
+        postponedFrom: task.postponedFrom ?? task.scheduledDate,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      if (task.remindAt) {
+        Object.assign(
+          update,
+          buildReminderFields(task.remindAt, tomorrow, timeZone)
+        );
+      }
+      await taskRef.update(update);
+
+      logger.info(
+        `[通知アクション] 延期 task=${taskRef.id}, user=${userId}, ` +
+        `date=${toZonedDateKey(scheduledDate, timeZone)}`
+      );
+      return {success: true, scheduledDate: scheduledDate.toISOString()};
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[通知アクション] 延期エラー task=${taskId}`, error);
+      throw new HttpsError("internal", "タスクの延期に失敗しました");
+    }
+  }
+);
+
+/**
+ * 通知履歴の取得件数（デフォルト・上限）
+ */
+const DEFAULT_NOTIFICATION_HISTORY_LIMIT = 50;
+const MAX_NOTIFICATION_HISTORY_LIMIT = 200;
+
+/**
+ * 自分宛ての最近の通知の送信記録を取得
+ * 送信成功・失敗（再送を含む）・保留・デバイス未登録を新しい順に返す
+ */
+export const getMyNotificationHistory = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {limit = DEFAULT_NOTIFICATION_HISTORY_LIMIT} =
+      (request.data ?? {}) as {limit?: number};
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_NOTIFICATION_HISTORY_LIMIT
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        `取得件数は1から${MAX_NOTIFICATION_HISTORY_LIMIT}までの整数で指定してください`
+      );
+    }
+
+    try {
+      const entries =
+        await getNotificationHistory(admin.firestore(), userId, limit);
+      return {entries};
+    } catch (error) {
+      logger.error(`[${userId}] 通知履歴の取得エラー`, error);
+      throw new HttpsError("internal", "通知履歴の取得に失敗しました");
+    }
+  }
+);
+
+/**
+ * 個人・テンプレート・グループの完了統計を取得
+ * 指定期間（日付はYYYY-MM-DD、終了日を含む）の完了率・現在と最長の連続達成日数・
+ * 予定日から完了までの平均時間・曜日ごとの件数を、日ごとの集計から計算する
+ * 期間の終了日は今日までに切り詰める（未来のタスクで連続が途切れないように）
+ * テンプレート・グループは所有者またはグループメンバーのみ取得できる
+ */
+export const getTaskStats = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {scope = "user", scopeId, startDate, endDate} =
+      (request.data ?? {}) as {
+        scope?: TaskStatsScope;
+        scopeId?: string;
+        startDate?: string;
+        endDate?: string;
+      };
+    if (scope !== "user" && scope !== "template" && scope !== "group") {
+      throw new HttpsError(
+        "invalid-argument",
+        "scopeはuser・template・groupのいずれかで指定してください"
+      );
+    }
+    if (scope !== "user" && !scopeId) {
+      throw new HttpsError("invalid-argument", "scopeIdが必要です");
+    }
+    const start = startDate === undefined ? null : parseStatsDateKey(startDate);
+    const end = endDate === undefined ? null : parseStatsDateKey(endDate);
+    if (
+      (startDate !== undefined && !start) ||
+      (endDate !== undefined && !end)
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        "日付はYYYY-MM-DDの形式で指定してください"
+      );
+    }
+
+    const db = admin.firestore();
+
+    try {
+      let ownerId = userId;
+      let timeZone: string;
+      if (scope === "user") {
+        timeZone = await getUserTimeZone(db, userId);
+      } else if (scope === "group") {
+        ownerId = scopeId as string;
+        const groupDoc = await db.collection("groups").doc(ownerId).get();
+        if (!groupDoc.exists) {
+          throw new HttpsError("not-found", "グループが見つかりません");
+        }
+        if (!isGroupMember(groupDoc.data(), userId)) {
+          throw new HttpsError(
+            "permission-denied",
+            "このグループのメンバーではありません"
+          );
+        }
+        timeZone = await getGroupTimeZone(db, ownerId);
+      } else {
+        ownerId = scopeId as string;
+        const templateDoc = await db
+          .collection("schedule_templates")
+          .doc(ownerId)
+          .get();
+        const template = templateDoc.data() as
+          ScheduleTemplateData | undefined;
+        if (!template) {
+          throw new HttpsError("not-found", "テンプレートが見つかりません");
+        }
+        if (template.isGroupSchedule && template.groupId) {
+          const groupDoc =
+            await db.collection("groups").doc(template.groupId).get();
+          if (!isGroupMember(groupDoc.data(), userId)) {
+            throw new HttpsError(
+              "permission-denied",
+              "このグループのメンバーではありません"
+            );
+          }
+        } else if (template.userId !== userId) {
+          throw new HttpsError(
+            "permission-denied",
+            "このテンプレートへのアクセス権限がありません"
+          );
+        }
+        timeZone = await getTemplateTimeZone(db, template);
+      }
+
+      const today = toZonedCalendarDate(new Date(), timeZone);
+      const range = resolveStatsRange(start, end, today);
+      if (!range) {
+        throw new HttpsError(
+          "invalid-argument",
+          `期間は今日までの1日から${MAX_TASK_STATS_DAYS}日までで指定してください`
+        );
+      }
+
+      const stats = await getTaskStatsForRange(
+        db,
+        scope,
+        ownerId,
+        range.start,
+        range.end,
+        today,
+        timeZone
+      );
+      return {
+        scope,
+        scopeId: ownerId,
+        timeZone,
+        startDate: formatStatsDateKey(range.start),
+        endDate: formatStatsDateKey(range.end),
+        ...stats,
+      };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[完了統計] 取得エラー ${scope}: ${scopeId ?? userId}`, error);
+      throw new HttpsError("internal", "完了統計の取得に失敗しました");
+    }
+  }
+);
+
+/**
+ * グループのメンバーごとの完了数を取得（グループメンバーのみ）
+ * 完了数の多い順に、テンプレート別・月別（YYYY-MM）の内訳とあわせて返す
+ * monthを指定した場合はその月の完了数の多い順に並べる
+ */
+export const getGroupMemberContributions = onCall(
+  {region: "asia-northeast1"},
+  async (request) => {
+    const userId = request.auth?.uid;
+    if (!userId) {
+      throw new HttpsError("unauthenticated", "認証が必要です");
+    }
+
+    const {groupId, month} = (request.data ?? {}) as {
+      groupId?: string;
+      month?: string;
+    };
+    if (!groupId) {
+      throw new HttpsError("invalid-argument", "groupIdが必要です");
+    }
+    if (month !== undefined && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "monthはYYYY-MMの形式で指定してください"
+      );
+    }
+
+    const db = admin.firestore();
+
+    try {
+      const groupDoc = await db.collection("groups").doc(groupId).get();
+      if (!groupDoc.exists) {
+        throw new HttpsError("not-found", "グループが見つかりません");
+      }
+      if (!isGroupMember(groupDoc.data(), userId)) {
+        throw new HttpsError(
+          "permission-denied",
+          "このグループのメンバーではありません"
+        );
+      }
+
+      const members = await getGroupContributions(db, groupId, month);
+      return {groupId, month: month ?? null, members};
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error(`[メンバー別完了数] 取得エラー ${groupId}`, error);
+      throw new HttpsError("internal", "メンバー別の完了数の取得に失敗しました");
+    }
+  }
+);
@@ -0,0 +1,443 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {RepeatType, ScheduleTemplateData} from "./types";
+import {toZonedCalendarDate, toZonedDateKey} from "./timezone";
+import {
+  buildTaskId,
+  generateTemplateTasks,
+  getGroupTimeZone,
+  getUserTimeZone,
+  isAlreadyExistsError,
+} from "./taskGeneration";
+import {buildTaskDocument} from "./taskSchema";
+
+/**
+ * 旧予定データのサブコレクション名
+ * users/{userId}/schedules/{scheduleId}
+ */
+export const LEGACY_SCHEDULES_COLLECTION = "schedules";
+
+/**
+ * 旧完了履歴のサブコレクション名
+ * users/{userId}/completion_history/{historyId}
+ */
+export const LEGACY_HISTORY_COLLECTION = "completion_history";
+
+/**
+ * 旧予定データ1件の移行内容
+ */
+export interface LegacyScheduleDetail {
+  userId: string;
+  scheduleId: string;
+  templateId: string;
+  // created: テンプレートを作成 / exists: 作成済み / migrated: 移行済み
+  action: "created" | "exists" | "migrated";
+}
+
+/**
+ * 旧予定データの移行結果（ユーザー単位で集計する）
+ */
+export interface LegacyMigrationReport {
+  schedulesScanned: number;
+  templatesCreated: number;
+  schedulesSkipped: number;
+  historyScanned: number;
+  tasksCompleted: number;
+  historySkipped: number;
+  tasksGenerated: number;
+  details: LegacyScheduleDetail[];
+}
+
+/**
+ * レポートに含める移行内容の上限
+ */
+const MAX_REPORT_DETAILS = 200;
+
+/**
+ * 1回のバッチで書き込む件数の上限
+ */
+const MIGRATION_BATCH_SIZE = 450;
+
+/**
+ * 空の移行結果を作成
+ * @return {LegacyMigrationReport} 移行結果
+ */
+export function createLegacyMigrationReport(): LegacyMigrationReport {
+  return {
+    schedulesScanned: 0,
+    templatesCreated: 0,
+    schedulesSkipped: 0,
+    historyScanned: 0,
+    tasksCompleted: 0,
+    historySkipped: 0,
+    tasksGenerated: 0,
+    details: [],
+  };
+}
+
+/**
+ * 旧予定データから移行先のテンプレートIDを作成
+ * グループ予定は各メンバーのサブコレクションに同じIDで複製されているため、
+ * グループIDと予定IDから決定し、複製を1つのテンプレートにまとめる
+ * @param {string} userId - 旧予定データの所有者
+ * @param {string} scheduleId - 旧予定データのID
+ * @param {string | null} groupId - グループ予定のグループID
+ * @return {string} テンプレートID
+ */
+export function buildLegacyTemplateId(
+  userId: string,
+  scheduleId: string,
+  groupId: string | null
+): string {
+  return groupId ?
+    `legacy_${groupId}_${scheduleId}` :
+    `legacy_${userId}_${scheduleId}`;
+}
+
+/**
+ * 日付の曜日を1=月曜〜7=日曜で取得
+ * @param {admin.firestore.Timestamp} timestamp - 日時
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {number} 曜日
+ */
+function getIsoWeekday(
+  timestamp: admin.firestore.Timestamp,
+  timeZone: string
+): number {
+  const day = toZonedCalendarDate(timestamp.toDate(), timeZone).getDay();
+  return day === 0 ? 7 : day;
+}
+
+/**
+ * 旧予定データをテンプレートデータに変換
+ * 繰り返し設定・グループの紐付け・完了必須フラグを引き継ぐ
+ * 旧形式の「weekly」は次回予定日（なければ作成日）の曜日の曜日指定にする
+ * @param {string} userId - 旧予定データの所有者
+ * @param {admin.firestore.DocumentData} data - 旧予定データ
+ * @param {string} timeZone - 日付の基準とするIANAタイムゾーン
+ * @return {ScheduleTemplateData} テンプレートデータ（IDなし）
+ */
+export function convertLegacySchedule(
+  userId: string,
+  data: admin.firestore.DocumentData,
+  timeZone: string
+): Omit<ScheduleTemplateData, "id"> {
+  const isGroupSchedule = data.isGroupSchedule === true && !!data.groupId;
+  let repeatType = Object.values(RepeatType).includes(data.repeatType) ?
+    data.repeatType as RepeatType :
+    RepeatType.NONE;
+  let selectedWeekdays =
+    (data.selectedWeekdays ?? data.weekdays ?? undefined) as
+      number[] | undefined;
+
+  const baseDate = (data.nextScheduledDate ?? data.createdAt) as
+    admin.firestore.Timestamp | undefined;
+  if (data.repeatType === "weekly") {
+    repeatType = RepeatType.CUSTOM_WEEKLY;
+    if ((!selectedWeekdays || selectedWeekdays.length === 0) && baseDate) {
+      selectedWeekdays = [getIsoWeekday(baseDate, timeZone)];
+    }
+  }
+
+  return {
+    userId: (data.userId as string | undefined) || userId,
+    title: data.title ?? "",
+    description: data.description ?? "",
+    repeatType,
+    repeatInterval: data.repeatInterval ?? undefined,
+    selectedWeekdays,
+    monthlyDay: data.monthlyDay ?? undefined,
+    requiresCompletion: data.requiresCompletion === true,
+    isActive: data.isActive !== false,
+    isGroupSchedule,
+    groupId: isGroupSchedule ? data.groupId : undefined,
+    createdAt: data.createdAt ?? admin.firestore.Timestamp.now(),
+  };
+}
+
+/**
+ * 完了履歴の移行先のテンプレート（予定が残っていない場合は履歴から作成）
+ */
+interface HistoryTemplate {
+  templateId: string | null;
+  template: ScheduleTemplateData;
+}
+
+/**
+ * 1ユーザーの旧予定データと完了履歴を移行
+ * 予定はテンプレートに、完了履歴は完了済みのタスクに変換し、
+ * 移行した旧データにはmigratedAtと移行先のIDを記録する（再実行時はスキップ）
+ * テンプレート・タスクのIDは決定的なため、途中で失敗しても再実行で重複しない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {boolean} dryRun - trueの場合は書き込まない
+ * @param {LegacyMigrationReport} report - 集計先の移行結果
+ * @return {Promise<void>}
+ */
+export async function migrateUserLegacySchedules(
+  db: admin.firestore.Firestore,
+  userId: string,
+  dryRun: boolean,
+  report: LegacyMigrationReport
+): Promise<void> {
+  const userRef = db.collection("users").doc(userId);
+  const [schedulesSnapshot, historySnapshot] = await Promise.all([
+    userRef.collection(LEGACY_SCHEDULES_COLLECTION).get(),
+    userRef.collection(LEGACY_HISTORY_COLLECTION).get(),
+  ]);
+  if (schedulesSnapshot.empty && historySnapshot.empty) {
+    return;
+  }
+
+  // タイムゾーン（グループ予定はグループ、個人予定はユーザー）
+  const timeZones = new Map<string, string>();
+  const resolveTimeZone = async (groupId: string | null) => {
+    const key = groupId ?? "";
+    let timeZone = timeZones.get(key);
+    if (!timeZone) {
+      timeZone = groupId ?
+        await getGroupTimeZone(db, groupId) :
+        await getUserTimeZone(db, userId);
+      timeZones.set(key, timeZone);
+    }
+    return timeZone;
+  };
+
+  let batch = db.batch();
+  let batchSize = 0;
+  const addToBatch = async (
+    write: (writer: admin.firestore.WriteBatch) => void
+  ) => {
+    if (dryRun) {
+      return;
+    }
+    write(batch);
+    batchSize++;
+    if (batchSize >= MIGRATION_BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      batchSize = 0;
+    }
+  };
+
+  // 予定 → テンプレート
+  const templates = new Map<string, ScheduleTemplateData>();
+  const createdTemplates: ScheduleTemplateData[] = [];
+  for (const doc of schedulesSnapshot.docs) {
+    const data = doc.data();
+    report.schedulesScanned++;
+
+    const groupId = data.isGroupSchedule === true && data.groupId ?
+      data.groupId as string : null;
+    const templateId = buildLegacyTemplateId(userId, doc.id, groupId);
+    const timeZone = await resolveTimeZone(groupId);
+    const template = {
+      id: templateId,
+      ...convertLegacySchedule(userId, data, timeZone),
+    };
+    templates.set(doc.id, template);
+
+    let action: LegacyScheduleDetail["action"];
+    if (data.migratedTemplateId) {
+      action = "migrated";
+    } else {
+      const templateRef = db.collection("schedule_templates").doc(templateId);
+      const created = dryRun ?
+        !(await templateRef.get()).exists :
+        await templateRef.create({
+          userId: template.userId,
+          title: template.title,
+          description: template.description,
+          repeatType: template.repeatType,
+          repeatInterval: template.repeatInterval ?? null,
+          selectedWeekdays: template.selectedWeekdays ?? null,
+          monthlyDay: template.monthlyDay ?? null,
+          rrule: null,
+          holidayPolicy: null,
+          remindAt: null,
+          requiresCompletion: template.requiresCompletion,
+          isActive: template.isActive,
+          groupId: template.groupId ?? null,
+          isGroupSchedule: template.isGroupSchedule,
+          legacyScheduleId: doc.id,
+          legacyUserId: userId,
+          createdAt: template.createdAt,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }).then(() => true, (error) => {
+          if (isAlreadyExistsError(error)) {
+            return false;
+          }
+          throw error;
+        });
+      action = created ? "created" : "exists";
+      if (created && template.isActive) {
+        createdTemplates.push(template);
+      }
+      await addToBatch((writer) => writer.update(doc.ref, {
+        migratedTemplateId: templateId,
+        migratedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }));
+    }
+
+    if (action === "created") {
+      report.templatesCreated++;
+    } else {
+      report.schedulesSkipped++;
+    }
+    if (report.details.length < MAX_REPORT_DETAILS) {
+      report.details.push({userId, scheduleId: doc.id, templateId, action});
+    }
+  }
+
+  // 完了履歴 → 完了済みのタスク
+  const completedTaskIds = new Set<string>();
+  for (const doc of historySnapshot.docs) {
+    const data = doc.data();
+    report.historyScanned++;
+
+    const completedDate = data.completedDate as
+      admin.firestore.Timestamp | undefined;
+    if (data.migratedTaskId || !completedDate || !data.scheduleId) {
+      report.historySkipped++;
+      continue;
+    }
+
+    const {templateId, template} = await resolveHistoryTemplate(
+      db,
+      userId,
+      data,
+      templates
+    );
+    const legacyTemplateId = templateId ?? buildLegacyTemplateId(
+      userId,
+      data.scheduleId,
+      template.groupId ?? null
+    );
+    const timeZone = await resolveTimeZone(template.groupId ?? null);
+    const taskDate = toZonedCalendarDate(completedDate.toDate(), timeZone);
+    const taskId = buildTaskId(
+      legacyTemplateId,
+      toZonedDateKey(completedDate.toDate(), timeZone)
+    );
+
+    // グループの完了履歴はメンバーごとに複製されているため、同じ日は1件にまとめる
+    if (!completedTaskIds.has(taskId)) {
+      completedTaskIds.add(taskId);
+      const taskRef = db.collection("tasks").doc(taskId);
+      const existing = await taskRef.get();
+      const completion = {
+        completedAt: completedDate,
+        completedByMemberId: template.isGroupSchedule ?
+          data.completedByMemberId ?? data.userId ?? userId :
+          null,
+      };
+      if (!existing.exists) {
+        await addToBatch((writer) => writer.set(taskRef, buildTaskDocument(
+          legacyTemplateId,
+          template,
+          taskDate,
+          timeZone,
+          {
+            templateId,
+            ...completion,
+            legacyHistoryId: doc.id,
+          }
+        )));
+        report.tasksCompleted++;
+      } else if (existing.data()?.completedAt == null) {
+        await addToBatch((writer) => writer.update(taskRef, {
+          ...completion,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }));
+        report.tasksCompleted++;
+      } else {
+        report.historySkipped++;
+      }
+    } else {
+      report.historySkipped++;
+    }
+
+    await addToBatch((writer) => writer.update(doc.ref, {
+      migratedTaskId: taskId,
+      migratedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }));
+  }
+
+  if (batchSize > 0) {
+    await batch.commit();
+  }
+
+  // 作成したテンプレートのタスクを生成（完了済みのタスクの後から）
+  if (!dryRun) {
+    for (const template of createdTemplates) {
+      const result = await generateTemplateTasks(
+        db,
+        template.id,
+        template,
+        await resolveTimeZone(template.groupId ?? null),
+        "[旧予定データ移行]"
+      );
+      report.tasksGenerated += result.created;
+    }
+  }
+
+  logger.info(
+    `[旧予定データ移行] user=${userId}, dryRun=${dryRun}, ` +
+    `schedules=${schedulesSnapshot.size}, history=${historySnapshot.size}`
+  );
+}
+
+/**
+ * 完了履歴の移行先のテンプレートを取得
+ * 同じユーザーの予定、移行済みのテンプレートの順に探し、
+ * どちらもない場合（予定が削除済み）はテンプレートに紐付けない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - 完了履歴の所有者
+ * @param {admin.firestore.DocumentData} data - 完了履歴
+ * @param {Map<string, ScheduleTemplateData>} templates - 予定IDごとの変換結果
+ * @return {Promise<HistoryTemplate>} 移行先のテンプレート
+ */
+async function resolveHistoryTemplate(
+  db: admin.firestore.Firestore,
+  userId: string,
+  data: admin.firestore.DocumentData,
+  templates: Map<string, ScheduleTemplateData>
+): Promise<HistoryTemplate> {
+  const scheduleId = data.scheduleId as string;
+  const groupId = (data.groupId as string | undefined) || null;
+
+  const converted = templates.get(scheduleId);
+  if (converted) {
+    return {templateId: converted.id, template: converted};
+  }
+
+  const templateId = buildLegacyTemplateId(userId, scheduleId, groupId);
+  const templateDoc = await db
+    .collection("schedule_templates")
+    .doc(templateId)
+    .get();
+  if (templateDoc.exists) {
+    return {
+      templateId,
+      template: {
+        id: templateId,
+        ...templateDoc.data(),
+      } as ScheduleTemplateData,
+    };
+  }
+
+  return {
+    templateId: null,
+    template: {
+      id: templateId,
+      userId,
+      title: data.scheduleTitle ?? "",
+      description: "",
+      repeatType: RepeatType.NONE,
+      requiresCompletion: false,
+      isActive: false,
+      isGroupSchedule: !!groupId,
+      groupId: groupId ?? undefined,
+    },
+  };
+}
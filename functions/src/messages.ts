@@ -0,0 +1,354 @@
+/**
+ * プッシュ通知の文言カタログ
+ * 文言は{name}形式のプレースホルダーを含み、件数によって変わる文言は
+ * 複数形のルール（Intl.PluralRules）でcountから形を選ぶ
+ */
+
+/**
+ * 通知の言語（usersドキュメントのlocale）
+ */
+export type MessageLocale = "ja" | "en";
+
+/**
+ * localeが未設定・未対応の場合の言語
+ */
+export const DEFAULT_LOCALE: MessageLocale = "ja";
+
+/**
+ * 複数形のルールで選ぶ文言（otherは必須）
+ */
+type PluralMessage = {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+};
+
+/**
+ * カタログの1件の文言
+ */
+type Message = string | PluralMessage;
+
+/**
+ * 文言に埋め込む値
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 日本語の文言（キーの一覧を兼ねる）
+ */
+const JA_MESSAGES = {
+  // 件数（他の文言に埋め込む）
+  "unit.tasks": "{count}件",
+  "unit.days": "{count}日",
+
+  // 時刻指定のタスクのお知らせ
+  "digest.title.morning": "おはようございます！",
+  "digest.title.afternoon": "お疲れ様です！",
+  "digest.title.evening": "今日もお疲れ様でした！",
+  "digest.title.other": "本日のタスクのお知らせ",
+  "digest.body.none.morning": "今日のタスクはありません！良い一日を！",
+  "digest.body.none.afternoon": "今日のタスクはありません！引き続き良い一日を！",
+  "digest.body.none.evening": "今日のタスクはありません！ゆっくり休んでください！",
+  "digest.body.none.other": "今日のタスクはありません！",
+  "digest.body.today.morning":
+    "今日はタスクが{todayTasks}あります！\n今日も一日頑張りましょう！",
+  "digest.body.today.afternoon":
+    "今日はタスクが{todayTasks}あります！\n引き続き頑張りましょう！",
+  "digest.body.today.evening":
+    "今日はタスクが{todayTasks}あります！\n残りも頑張りましょう！",
+  "digest.body.today.other": "今日はタスクが{todayTasks}あります！",
+  "digest.body.overdue.morning":
+    "今日は遅延のタスクが{overdueTasks}あります！\n早めに確認しましょう！",
+  "digest.body.overdue.afternoon":
+    "今日は遅延のタスクが{overdueTasks}あります！\n" +
+    "時間があれば確認してみてください！",
+  "digest.body.overdue.evening":
+    "今日は遅延のタスクが{overdueTasks}あります！\n明日の予定に含めましょう！",
+  "digest.body.overdue.other": "今日は遅延のタスクが{overdueTasks}あります！",
+  "digest.body.both.morning":
+    "今日はタスクが{todayTasks}\n遅延のタスクが{overdueTasks}あります。\n" +
+    "計画的に進めましょう！",
+  "digest.body.both.afternoon":
+    "今日はタスクが{todayTasks}\n遅延のタスクが{overdueTasks}あります。\n" +
+    "できるところから進めましょう！",
+  "digest.body.both.evening":
+    "今日はタスクが{todayTasks}\n遅延のタスクが{overdueTasks}あります。\n" +
+    "無理せず進めましょう！",
+  "digest.body.both.other":
+    "今日はタスクが{todayTasks}\n遅延のタスクが{overdueTasks}あります。",
+  "digest.split": "（内訳: 自分{personalTasks}・グループ{groupTasks}）",
+
+  // 週次のふりかえり
+  "summary.title": "今週のふりかえり",
+  "summary.completed": "完了: {completed}/{scheduledTasks}",
+  "summary.streak": "最長の連続達成: {days}",
+  "summary.overdue": "遅延中のタスク: {overdueTasks}",
+  "summary.next": "これから7日間の予定: {nextTasks}",
+
+  // グループタスクの完了
+  "groupCompleted.title": "{groupName} - タスク完了",
+  "groupCompleted.body": "{userName}さんが「{taskTitle}」を完了しました",
+
+  // 遅れているグループタスクのエスカレーション
+  "escalation.title": "{groupName} - 遅れているタスク",
+  "escalation.body": "「{taskTitle}」が{days}遅れています",
+  "escalation.body.assignee": "担当の「{taskTitle}」が{days}遅れています",
+
+  // タスクごとのリマインダー
+  "reminder.title": "リマインダー",
+  "reminder.body": "「{taskTitle}」の時間です",
+
+  // おやすみ中に保留した通知のまとめ
+  "deferredSummary.title": "おやすみ中の通知（{count}件）",
+  "deferredSummary.more": "ほか{count}件",
+
+  // 名前が未設定の場合の表示
+  "fallback.group": "グループ",
+  "fallback.member": "メンバー",
+  "fallback.task": "タスク",
+};
+
+/**
+ * 文言のキー
+ */
+export type MessageKey = keyof typeof JA_MESSAGES;
+
+/**
+ * 英語の文言
+ */
+const EN_MESSAGES: Record<MessageKey, Message> = {
+  "unit.tasks": {one: "{count} task", other: "{count} tasks"},
+  "unit.days": {one: "{count} day", other: "{count} days"},
+
+  "digest.title.morning": "Good morning!",
+  "digest.title.afternoon": "Hope your day is going well!",
+  "digest.title.evening": "Great work today!",
+  "digest.title.other": "Today's tasks",
+  "digest.body.none.morning": "No tasks today! Have a great day!",
+  "digest.body.none.afternoon": "No tasks today! Enjoy the rest of your day!",
+  "digest.body.none.evening": "No tasks today! Get some rest!",
+  "digest.body.none.other": "No tasks today!",
+  "digest.body.today.morning":
+    "You have {todayTasks} today!\nLet's make it a great day!",
+  "digest.body.today.afternoon": "You have {todayTasks} today!\nKeep it up!",
+  "digest.body.today.evening":
+    "You have {todayTasks} left today!\nYou've got this!",
+  "digest.body.today.other": "You have {todayTasks} today!",
+  "digest.body.overdue.morning":
+    "You have {overdueTasks} overdue!\nTake a look early!",
+  "digest.body.overdue.afternoon":
+    "You have {overdueTasks} overdue!\nTake a look when you have time!",
+  "digest.body.overdue.evening":
+    "You have {overdueTasks} overdue!\nAdd them to tomorrow's plan!",
+  "digest.body.overdue.other": "You have {overdueTasks} overdue!",
+  "digest.body.both.morning":
+    "You have {todayTasks} today\nand {overdueTasks} overdue.\n" +
+    "Plan your day!",
+  "digest.body.both.afternoon":
+    "You have {todayTasks} today\nand {overdueTasks} overdue.\n" +
+    "Start with what you can!",
+  "digest.body.both.evening":
+    "You have {todayTasks} today\nand {overdueTasks} overdue.\n" +
+    "Don't push yourself too hard!",
+  "digest.body.both.other":
+    "You have {todayTasks} today\nand {overdueTasks} overdue.",
+  "digest.split": "(Personal: {personalTasks} / Groups: {groupTasks})",
+
+  "summary.title": "Your week in review",
+  "summary.completed": "Completed: {completed} of {scheduledTasks}",
+  "summary.streak": "Longest streak: {days}",
+  "summary.overdue": "Overdue: {overdueTasks}",
+  "summary.next": "Next 7 days: {nextTasks}",
+
+  "groupCompleted.title": "{groupName} - Task completed",
+  "groupCompleted.body": "{userName} completed \"{taskTitle}\"",
+
+  "escalation.title": "{groupName} - Overdue task",
+  "escalation.body": "\"{taskTitle}\" is {days} overdue",
+  "escalation.body.assignee": "Your task \"{taskTitle}\" is {days} overdue",
+
+  "reminder.title": "Reminder",
+  "reminder.body": "It's time for \"{taskTitle}\"",
+
+  "deferredSummary.title": {
+    one: "{count} notification while you were away",
+    other: "{count} notifications while you were away",
+  },
+  "deferredSummary.more": "and {count} more",
+
+  "fallback.group": "Group",
+  "fallback.member": "A member",
+  "fallback.task": "Task",
+};
+
+/**
+ * 言語ごとの文言
+ */
+const CATALOGS: Record<MessageLocale, Record<MessageKey, Message>> = {
+  ja: JA_MESSAGES,
+  en: EN_MESSAGES,
+};
+
+/**
+ * usersドキュメントのlocaleから通知の言語を決定
+ * 「en-US」「en_GB」のような地域付きの指定は言語部分で判定する
+ * @param {unknown} value - usersドキュメントのlocale
+ * @return {MessageLocale} 通知の言語（未対応の場合は日本語）
+ */
+export function resolveLocale(value: unknown): MessageLocale {
+  if (typeof value !== "string") {
+    return DEFAULT_LOCALE;
+  }
+  const language = value.split(/[-_]/)[0].toLowerCase();
+  return language in CATALOGS ? language as MessageLocale : DEFAULT_LOCALE;
+}
+
+/**
+ * カタログの文言にパラメータを埋め込む
+ * 複数形のある文言はparams.countから形を選ぶ
+ * @param {MessageLocale} locale - 通知の言語
+ * @param {MessageKey} key - 文言のキー
+ * @param {MessageParams} params - 埋め込む値
+ * @return {string} 文言
+ */
+export function formatMessage(
+  locale: MessageLocale,
+  key: MessageKey,
+  params: MessageParams = {}
+): string {
+  const message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key];
+
+  let template: string;
+  if (typeof message === "string") {
+    template = message;
+  } else {
+    const count = Number(params.count ?? 0);
+    const form = new Intl.PluralRules(locale).select(count);
+    template = message[form] ?? message.other;
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * 通知の時間帯
+ */
+export type DayPeriod = "morning" | "afternoon" | "evening" | "other";
+
+/**
+ * 時から通知の時間帯を判定
+ * @param {number} hour - ユーザーのタイムゾーンでの時
+ * @return {DayPeriod} 時間帯
+ */
+export function getDayPeriod(hour: number): DayPeriod {
+  if (hour >= 5 && hour < 12) {
+    return "morning";
+  }
+  if (hour >= 12 && hour < 18) {
+    return "afternoon";
+  }
+  if (hour >= 18 && hour < 23) {
+    return "evening";
+  }
+  return "other";
+}
+
+/**
+ * 時刻指定のタスクのお知らせのタイトルと本文を作成
+ * グループのタスクがある場合は、個人とグループの内訳を本文に追加する
+ * @param {MessageLocale} locale - 通知の言語
+ * @param {number} hour - ユーザーのタイムゾーンでの時
+ * @param {number} todayCount - 今日の未完了タスク数（グループを含む）
+ * @param {number} overdueCount - 遅延している未完了タスク数（グループを含む）
+ * @param {number} groupCount - うちグループのタスク数（今日と遅延の合計）
+ * @return {Object} タイトルと本文
+ */
+export function buildDigestMessage(
+  locale: MessageLocale,
+  hour: number,
+  todayCount: number,
+  overdueCount: number,
+  groupCount = 0
+): {title: string; body: string} {
+  const period = getDayPeriod(hour);
+
+  let variant: "none" | "today" | "overdue" | "both";
+  if (todayCount === 0 && overdueCount === 0) {
+    variant = "none";
+  } else if (overdueCount === 0) {
+    variant = "today";
+  } else if (todayCount === 0) {
+    variant = "overdue";
+  } else {
+    variant = "both";
+  }
+
+  const params = {
+    todayTasks: formatMessage(locale, "unit.tasks", {count: todayCount}),
+    overdueTasks: formatMessage(locale, "unit.tasks", {count: overdueCount}),
+  };
+  let body = formatMessage(locale, `digest.body.${variant}.${period}`, params);
+  if (groupCount > 0) {
+    const personalCount = todayCount + overdueCount - groupCount;
+    const split = formatMessage(locale, "digest.split", {
+      personalTasks:
+        formatMessage(locale, "unit.tasks", {count: personalCount}),
+      groupTasks: formatMessage(locale, "unit.tasks", {count: groupCount}),
+    });
+    body += `\n${split}`;
+  }
+  return {
+    title: formatMessage(locale, `digest.title.${period}`),
+    body,
+  };
+}
+
+/**
+ * ふりかえりに載せる件数（個人とグループの合計）
+ */
+export interface SummaryTotals {
+  scheduledCount: number;
+  completedCount: number;
+  overdueCount: number;
+  nextCount: number;
+  longestStreak: number;
+}
+
+/**
+ * 週次のふりかえりのタイトルと本文を作成
+ * 本文は完了数・最長の連続達成・遅延・今後の予定を1行ずつ並べる
+ * @param {MessageLocale} locale - 通知の言語
+ * @param {SummaryTotals} totals - 件数
+ * @return {Object} タイトルと本文
+ */
+export function buildSummaryMessage(
+  locale: MessageLocale,
+  totals: SummaryTotals
+): {title: string; body: string} {
+  const tasks = (count: number) =>
+    formatMessage(locale, "unit.tasks", {count});
+  const lines = [
+    formatMessage(locale, "summary.completed", {
+      completed: totals.completedCount,
+      scheduledTasks: tasks(totals.scheduledCount),
+    }),
+    formatMessage(locale, "summary.streak", {
+      days: formatMessage(locale, "unit.days", {count: totals.longestStreak}),
+    }),
+    formatMessage(locale, "summary.overdue", {
+      overdueTasks: tasks(totals.overdueCount),
+    }),
+    formatMessage(locale, "summary.next", {
+      nextTasks: tasks(totals.nextCount),
+    }),
+  ];
+  return {
+    title: formatMessage(locale, "summary.title"),
+    body: lines.join("\n"),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * 通知のアクションボタン
+ * アプリはdataのcategory・actions（iOSはaps.category）を見てボタンを表示し、
+ * 押されたボタンに応じて対応するCallable関数を呼び出す
+ */
+
+/**
+ * 通知アクションのID
+ * COMPLETE_TASK → completeTaskFromNotification
+ * SNOOZE_TASK → snoozeTask
+ * POSTPONE_TASK → postponeTaskToTomorrow
+ */
+export enum NotificationAction {
+  COMPLETE_TASK = "COMPLETE_TASK",
+  SNOOZE_TASK = "SNOOZE_TASK",
+  POSTPONE_TASK = "POSTPONE_TASK",
+}
+
+/**
+ * 通知のカテゴリ（iOSのUNNotificationCategoryの識別子と同じ）
+ */
+export enum NotificationCategory {
+  // 1件のタスクのリマインダー
+  TASK_REMINDER = "TASK_REMINDER",
+  // 時刻指定の今日のタスクのお知らせ
+  TASK_DIGEST = "TASK_DIGEST",
+  // グループメンバーによるタスク完了
+  GROUP_TASK_COMPLETED = "GROUP_TASK_COMPLETED",
+}
+
+/**
+ * カテゴリごとに表示するアクション
+ */
+const CATEGORY_ACTIONS: Record<NotificationCategory, NotificationAction[]> = {
+  [NotificationCategory.TASK_REMINDER]: [
+    NotificationAction.COMPLETE_TASK,
+    NotificationAction.SNOOZE_TASK,
+    NotificationAction.POSTPONE_TASK,
+  ],
+  [NotificationCategory.TASK_DIGEST]: [
+    NotificationAction.COMPLETE_TASK,
+    NotificationAction.POSTPONE_TASK,
+  ],
+  [NotificationCategory.GROUP_TASK_COMPLETED]: [],
+};
+
+/**
+ * dataペイロードに含めるタスクIDの上限（FCMのdataは4KBまで）
+ */
+export const MAX_ACTION_TASK_IDS = 30;
+
+/**
+ * アクションボタン用のdataペイロードを作成
+ * @param {NotificationCategory} category - 通知のカテゴリ
+ * @param {string[]} taskIds - 対象のタスクID
+ * @return {Record<string, string>} dataペイロードに追加する値
+ */
+export function buildActionData(
+  category: NotificationCategory,
+  taskIds: string[]
+): Record<string, string> {
+  return {
+    category,
+    actions: CATEGORY_ACTIONS[category].join(","),
+    taskIds: taskIds.slice(0, MAX_ACTION_TASK_IDS).join(","),
+  };
+}
@@ -0,0 +1,159 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+
+/**
+ * 通知の送信記録を保存するコレクション名
+ * notification_log/{autoId}（userId・createdAtで検索）
+ */
+export const NOTIFICATION_LOG_COLLECTION = "notification_log";
+
+/**
+ * 送信記録の状態
+ * sent: 送信成功 / failed: 送信失敗 / deferred: おやすみ時間・ミュート中のため保留
+ * no_device: 送信先のデバイスが未登録
+ */
+export type NotificationLogStatus =
+  | "sent"
+  | "failed"
+  | "deferred"
+  | "no_device";
+
+/**
+ * 1回の送信試行の記録
+ */
+export interface NotificationLogEntry {
+  userId: string;
+  type: string | null;
+  status: NotificationLogStatus;
+  // FCMのメッセージID（送信成功時のみ）
+  messageId: string | null;
+  // FCMのエラーコード（保留の場合は保留の理由）
+  errorCode: string | null;
+  // 1から始まる試行回数（送信していない記録は0）
+  attempt: number;
+  // この失敗の後に再送するか
+  willRetry: boolean;
+  platform: string | null;
+}
+
+/**
+ * 1件の通知の最大試行回数（初回を含む）
+ */
+export const MAX_SEND_ATTEMPTS = 3;
+
+/**
+ * 再送までの待ち時間の基準（試行ごとに2倍にする）
+ */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * 送信記録の保存期間（expireAtにTTLポリシーを設定して自動削除する）
+ */
+const LOG_RETENTION_DAYS = 30;
+
+/**
+ * 1回のバッチで書き込む送信記録の上限
+ */
+const LOG_BATCH_SIZE = 500;
+
+/**
+ * 一時的な障害のため再送すべきFCMのエラーコード
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  "messaging/server-unavailable",
+  "messaging/internal-error",
+  "messaging/message-rate-exceeded",
+  "messaging/device-message-rate-exceeded",
+  "messaging/quota-exceeded",
+]);
+
+/**
+ * 再送すべき一時的なエラーかどうかを判定
+ * @param {string | undefined} errorCode - FCMのエラーコード
+ * @return {boolean} 再送すべき場合true
+ */
+export function isTransientSendError(errorCode: string | undefined): boolean {
+  return !!errorCode && TRANSIENT_ERROR_CODES.has(errorCode);
+}
+
+/**
+ * 再送までの待ち時間を計算（指数バックオフ、最大20%のゆらぎ付き）
+ * @param {number} attempt - 失敗した試行回数（1から）
+ * @return {number} 待ち時間（ミリ秒）
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+/**
+ * 送信記録を保存
+ * 記録の失敗で通知処理を止めないよう、エラーはログ出力のみ
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {NotificationLogEntry[]} entries - 送信記録
+ * @return {Promise<void>}
+ */
+export async function writeNotificationLog(
+  db: admin.firestore.Firestore,
+  entries: NotificationLogEntry[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const expireAt = admin.firestore.Timestamp.fromMillis(
+    Date.now() + LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  );
+  try {
+    for (let i = 0; i < entries.length; i += LOG_BATCH_SIZE) {
+      const batch = db.batch();
+      entries.slice(i, i + LOG_BATCH_SIZE).forEach((entry) => {
+        batch.set(db.collection(NOTIFICATION_LOG_COLLECTION).doc(), {
+          ...entry,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          expireAt,
+        });
+      });
+      await batch.commit();
+    }
+  } catch (error) {
+    logger.error("送信記録の保存エラー", error);
+  }
+}
+
+/**
+ * ユーザーの最近の送信記録を取得（新しい順）
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {number} limit - 取得件数
+ * @return {Promise<Object[]>} 送信記録（日時はISO 8601文字列）
+ */
+export async function getNotificationHistory(
+  db: admin.firestore.Firestore,
+  userId: string,
+  limit: number
+): Promise<(NotificationLogEntry & {id: string; createdAt: string | null})[]> {
+  const snapshot = await db
+    .collection(NOTIFICATION_LOG_COLLECTION)
+    .where("userId", "==", userId)
+    .orderBy("createdAt", "desc")
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    const createdAt = data.createdAt as admin.firestore.Timestamp | null;
+    return {
+      id: doc.id,
+      userId: data.userId,
+      type: data.type ?? null,
+      status: data.status,
+      messageId: data.messageId ?? null,
+      errorCode: data.errorCode ?? null,
+      attempt: data.attempt ?? 0,
+      willRetry: data.willRetry === true,
+      platform: data.platform ?? null,
+      createdAt: createdAt ? createdAt.toDate().toISOString() : null,
+    };
+  });
+}
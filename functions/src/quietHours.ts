@@ -0,0 +1,338 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {getZonedParts, resolveTimeZone, zonedTimeToUtc} from "./timezone";
+import {
+  DeviceMessage,
+  DeviceSendResult,
+  DeviceToken,
+  getUserDeviceTokens,
+  sendToUserDevices,
+} from "./fcm";
+import {MessageLocale, formatMessage, resolveLocale} from "./messages";
+import {writeNotificationLog} from "./notificationLog";
+
+/**
+ * おやすみ中に抑制した通知を保存するコレクション名
+ * deferred_notifications/{autoId}（userId・deliverAfterで検索）
+ */
+export const DEFERRED_NOTIFICATIONS_COLLECTION = "deferred_notifications";
+
+/**
+ * 通知を抑制する理由
+ */
+export type SuppressReason = "quiet_hours" | "muted";
+
+/**
+ * 通知を今送信できるかの判定結果
+ */
+export type DeliveryWindow =
+  | {suppressed: false}
+  | {suppressed: true; reason: SuppressReason; resumeAt: Date};
+
+/**
+ * 送信または保留の結果
+ */
+export interface DeliveryResult {
+  deferred: boolean;
+  result: DeviceSendResult | null;
+}
+
+/**
+ * まとめ通知で1ユーザーあたりに処理する保留通知の上限
+ */
+const DEFERRED_PER_USER_LIMIT = 100;
+
+/**
+ * まとめ通知の1回の実行で処理する保留通知の上限
+ */
+const DEFERRED_PAGE_SIZE = 500;
+
+/**
+ * 時（0〜23）として有効かを判定
+ * @param {unknown} value - 判定する値
+ * @return {boolean} 有効な場合true
+ */
+function isHour(value: unknown): value is number {
+  return Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= 23;
+}
+
+/**
+ * おやすみ時間・ミュート設定から、今通知を送信できるかを判定
+ * おやすみ時間はユーザーのタイムゾーンの時で指定し、日付をまたぐ指定（22時〜7時）も可
+ * @param {admin.firestore.DocumentData | undefined} userData - ユーザー
+ * @param {Date} now - 判定する時刻
+ * @return {DeliveryWindow} 判定結果（抑制する場合は再開時刻を含む）
+ */
+export function getDeliveryWindow(
+  userData: admin.firestore.DocumentData | undefined,
+  now: Date
+): DeliveryWindow {
+  const muteUntil =
+    (userData?.muteUntil as admin.firestore.Timestamp | null | undefined)
+      ?.toDate();
+  if (muteUntil && muteUntil > now) {
+    return {suppressed: true, reason: "muted", resumeAt: muteUntil};
+  }
+
+  const start = userData?.quietHoursStart;
+  const end = userData?.quietHoursEnd;
+  if (
+    userData?.quietHoursEnabled !== true ||
+    !isHour(start) ||
+    !isHour(end) ||
+    start === end
+  ) {
+    return {suppressed: false};
+  }
+
+  const timeZone = resolveTimeZone(userData.timeZone);
+  const parts = getZonedParts(now, timeZone);
+  const inQuietHours = start < end ?
+    parts.hour >= start && parts.hour < end :
+    parts.hour >= start || parts.hour < end;
+  if (!inQuietHours) {
+    return {suppressed: false};
+  }
+
+  // 終了時刻が今日より後なら今日、そうでなければ明日の終了時刻に再開
+  const dayOffset = parts.hour < end ? 0 : 1;
+  const resumeAt = zonedTimeToUtc(
+    parts.year,
+    parts.month,
+    parts.day + dayOffset,
+    timeZone,
+    end
+  );
+  return {suppressed: true, reason: "quiet_hours", resumeAt};
+}
+
+/**
+ * おやすみ時間・ミュート中の通知を保留キューに入れる
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {DeviceMessage} message - 送信メッセージ（トークン以外）
+ * @param {DeliveryWindow} window - 抑制中の判定結果
+ * @return {Promise<void>}
+ */
+export async function deferNotification(
+  db: admin.firestore.Firestore,
+  userId: string,
+  message: DeviceMessage,
+  window: Extract<DeliveryWindow, {suppressed: true}>
+): Promise<void> {
+  const type = message.data?.type ?? null;
+  await db.collection(DEFERRED_NOTIFICATIONS_COLLECTION).add({
+    userId,
+    type,
+    title: message.notification?.title ?? null,
+    body: message.notification?.body ?? null,
+    data: message.data ?? {},
+    reason: window.reason,
+    deliverAfter: admin.firestore.Timestamp.fromDate(window.resumeAt),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await writeNotificationLog(db, [{
+    userId,
+    type,
+    status: "deferred",
+    messageId: null,
+    errorCode: window.reason,
+    attempt: 0,
+    willRetry: false,
+    platform: null,
+  }]);
+  logger.info(
+    `[${userId}] 通知を保留: reason=${window.reason}, ` +
+    `resumeAt=${window.resumeAt.toISOString()}`
+  );
+}
+
+/**
+ * おやすみ時間・ミュート中でなければ送信し、そうでなければ保留キューに入れる
+ * 個別の通知送信はこの関数を経由する
+ * （時刻指定のお知らせはdigest.tsでまとめて判定・送信する）
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {DeviceMessage} message - 送信メッセージ（トークン以外）
+ * @param {Object} options - 取得済みのユーザーデータ・トークン、判定時刻
+ * @return {Promise<DeliveryResult>} 送信結果
+ */
+export async function deliverOrDefer(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  userId: string,
+  message: DeviceMessage,
+  options: {
+    userData?: admin.firestore.DocumentData;
+    tokens?: DeviceToken[];
+    now?: Date;
+  } = {}
+): Promise<DeliveryResult> {
+  const now = options.now ?? new Date();
+  const userData = options.userData ??
+    (await db.collection("users").doc(userId).get()).data();
+
+  const window = getDeliveryWindow(userData, now);
+  if (!window.suppressed) {
+    const tokens = options.tokens ??
+      await getUserDeviceTokens(db, userId, userData);
+    const result = await sendToUserDevices(
+      db,
+      messaging,
+      userId,
+      message,
+      tokens
+    );
+    return {deferred: false, result};
+  }
+
+  await deferNotification(db, userId, message, window);
+  return {deferred: true, result: null};
+}
+
+/**
+ * 保留中の通知からまとめ通知を作成
+ * @param {MessageLocale} locale - 通知の言語
+ * @param {admin.firestore.DocumentData[]} items - 保留中の通知
+ * @return {DeviceMessage} まとめ通知
+ */
+function buildSummaryMessage(
+  locale: MessageLocale,
+  items: admin.firestore.DocumentData[]
+): DeviceMessage {
+  const texts = items
+    .map((item) => (item.body ?? item.title) as string | null)
+    .filter((text): text is string => !!text);
+  const lines = texts.slice(0, 3);
+  if (texts.length > lines.length) {
+    lines.push(formatMessage(
+      locale,
+      "deferredSummary.more",
+      {count: texts.length - lines.length}
+    ));
+  }
+
+  return {
+    notification: {
+      title: formatMessage(
+        locale,
+        "deferredSummary.title",
+        {count: items.length}
+      ),
+      body: lines.join("\n"),
+    },
+    data: {
+      type: "deferred_summary",
+      count: items.length.toString(),
+    },
+    android: {
+      priority: "high",
+      notification: {
+        channelId: "default_channel",
+        priority: "high",
+      },
+    },
+    apns: {
+      payload: {
+        aps: {
+          sound: "default",
+        },
+      },
+    },
+  };
+}
+
+/**
+ * 1ユーザー分の保留通知をまとめて送信
+ * 保留通知はトランザクションで削除してから送信するため、二重送信しない
+ * 再開時刻になってもまだおやすみ中・ミュート中の場合は再開時刻を延ばす
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {Date} now - 実行時刻
+ * @return {Promise<number>} まとめて送信した通知の件数
+ */
+async function deliverDeferredForUser(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  userId: string,
+  now: Date
+): Promise<number> {
+  const userDoc = await db.collection("users").doc(userId).get();
+  const userData = userDoc.data();
+  const window = getDeliveryWindow(userData, now);
+
+  const dueQuery = db.collection(DEFERRED_NOTIFICATIONS_COLLECTION)
+    .where("userId", "==", userId)
+    .where("deliverAfter", "<=", admin.firestore.Timestamp.fromDate(now))
+    .orderBy("deliverAfter", "asc")
+    .limit(DEFERRED_PER_USER_LIMIT);
+
+  const items = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(dueQuery);
+    snapshot.docs.forEach((doc) => {
+      if (window.suppressed) {
+        transaction.update(doc.ref, {
+          deliverAfter: admin.firestore.Timestamp.fromDate(window.resumeAt),
+        });
+      } else {
+        transaction.delete(doc.ref);
+      }
+    });
+    return snapshot.docs.map((doc) => doc.data());
+  });
+
+  if (window.suppressed || items.length === 0) {
+    return 0;
+  }
+
+  const locale = resolveLocale(userData?.locale);
+  await sendToUserDevices(
+    db,
+    messaging,
+    userId,
+    buildSummaryMessage(locale, items)
+  );
+  logger.info(`[${userId}] 保留通知をまとめて送信: ${items.length}件`);
+  return items.length;
+}
+
+/**
+ * 再開時刻を過ぎた保留通知を、ユーザーごとに1件のまとめ通知として送信
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {Date} now - 実行時刻
+ * @return {Promise<number>} まとめ通知を送信したユーザー数
+ */
+export async function deliverDeferredNotifications(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  now: Date
+): Promise<number> {
+  const dueSnapshot = await db
+    .collection(DEFERRED_NOTIFICATIONS_COLLECTION)
+    .where("deliverAfter", "<=", admin.firestore.Timestamp.fromDate(now))
+    .orderBy("deliverAfter", "asc")
+    .limit(DEFERRED_PAGE_SIZE)
+    .get();
+
+  const userIds = Array.from(
+    new Set(dueSnapshot.docs.map((doc) => doc.data().userId as string))
+  );
+
+  let deliveredUsers = 0;
+  for (const userId of userIds) {
+    try {
+      const count = await deliverDeferredForUser(db, messaging, userId, now);
+      if (count > 0) {
+        deliveredUsers++;
+      }
+    } catch (error) {
+      logger.error(`[${userId}] 保留通知の送信エラー`, error);
+    }
+  }
+  return deliveredUsers;
+}
@@ -0,0 +1,368 @@
+import {HolidayPolicy, RepeatType, ScheduleTemplateData} from "./types";
+import {DEFAULT_TIME_ZONE, toZonedCalendarDate} from "./timezone";
+import {findBusinessDay, isJapaneseHoliday} from "./holidays";
+import {
+  RecurrenceRule,
+  RecurrenceSet,
+  expandRecurrence,
+  formatDateKey,
+  parseRecurrence,
+} from "./rrule";
+
+/**
+ * テンプレートに繰り返し設定があるかを判定
+ * rruleが指定されている場合はrepeatTypeより優先する
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @return {boolean} 繰り返し設定がある場合true
+ */
+export function hasRecurrence(template: ScheduleTemplateData): boolean {
+  if (template.rrule) {
+    return true;
+  }
+  return !!template.repeatType && template.repeatType !== RepeatType.NONE;
+}
+
+/**
+ * 完了後に次回を生成するカスタム繰り返し（rrule未指定のCUSTOM）かを判定
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @return {boolean} 完了後管理の場合true
+ */
+export function isCompletionBasedRecurrence(
+  template: ScheduleTemplateData
+): boolean {
+  return !template.rrule && template.repeatType === RepeatType.CUSTOM;
+}
+
+/**
+ * 旧形式のrepeatTypeをRRULEに変換
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} dtstart - 開始日（毎月の指定日がない場合の基準）
+ * @return {RecurrenceRule | null} 変換後のルール（繰り返しなしの場合null）
+ */
+export function legacyRepeatTypeToRule(
+  template: ScheduleTemplateData,
+  dtstart: Date
+): RecurrenceRule | null {
+  switch (template.repeatType) {
+  case RepeatType.NONE:
+    return null;
+
+  case RepeatType.CUSTOM_WEEKLY: {
+    // 曜日指定（1=月曜, 7=日曜）。未指定の場合は毎日
+    const weekdays = template.selectedWeekdays ?? [];
+    if (weekdays.length === 0) {
+      return {freq: "DAILY", interval: 1, wkst: 1};
+    }
+    return {
+      freq: "WEEKLY",
+      interval: 1,
+      wkst: 1,
+      byDay: weekdays.map((weekday) => ({weekday: weekday % 7})),
+    };
+  }
+
+  case RepeatType.MONTHLY: {
+    // 29日以降は、その日がない月は月末にする（30日 → 2月は28/29日）
+    const day = template.monthlyDay ?? dtstart.getDate();
+    if (day > 28) {
+      return {
+        freq: "MONTHLY",
+        interval: 1,
+        wkst: 1,
+        byMonthDay: [day, -1],
+        bySetPos: [1],
+      };
+    }
+    return {freq: "MONTHLY", interval: 1, wkst: 1, byMonthDay: [day]};
+  }
+
+  case RepeatType.MONTHLY_LAST_DAY:
+    return {freq: "MONTHLY", interval: 1, wkst: 1, byMonthDay: [-1]};
+
+  case RepeatType.CUSTOM: {
+    const interval = template.repeatInterval && template.repeatInterval > 0 ?
+      template.repeatInterval : 1;
+    return {freq: "DAILY", interval, wkst: 1};
+  }
+
+  case RepeatType.DAILY:
+  default:
+    return {freq: "DAILY", interval: 1, wkst: 1};
+  }
+}
+
+/**
+ * テンプレートの繰り返し定義を取得
+ * rruleがあれば解析し、なければrepeatTypeから変換する
+ * rruleの解析に失敗した場合はRRuleParseErrorを投げる
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} dtstart - DTSTART未指定時の開始日
+ * @return {RecurrenceSet | null} 繰り返し定義（繰り返しなしの場合null）
+ */
+export function getTemplateRecurrence(
+  template: ScheduleTemplateData,
+  dtstart: Date
+): RecurrenceSet | null {
+  if (template.rrule) {
+    return parseRecurrence(template.rrule);
+  }
+  const rule = legacyRepeatTypeToRule(template, dtstart);
+  return rule ? {dtstart: null, rule, exdates: new Set()} : null;
+}
+
+/**
+ * テンプレートの祝日の扱いを取得
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @return {HolidayPolicy} 祝日の扱い（不明な値はNONE）
+ */
+export function getHolidayPolicy(
+  template: ScheduleTemplateData
+): HolidayPolicy {
+  const policy = template.holidayPolicy as HolidayPolicy | undefined;
+  return policy && Object.values(HolidayPolicy).includes(policy) ?
+    policy : HolidayPolicy.NONE;
+}
+
+/**
+ * 祝日の扱いに従って日付を調整
+ * @param {Date} date - 発生日
+ * @param {HolidayPolicy} policy - 祝日の扱い
+ * @return {Date | null} 調整後の日付（スキップする場合はnull）
+ */
+export function adjustForHoliday(
+  date: Date,
+  policy: HolidayPolicy
+): Date | null {
+  if (policy === HolidayPolicy.NONE || !isJapaneseHoliday(date)) {
+    return date;
+  }
+  switch (policy) {
+  case HolidayPolicy.SKIP:
+    return null;
+  case HolidayPolicy.NEXT_BUSINESS_DAY:
+    return findBusinessDay(date, 1);
+  case HolidayPolicy.PREVIOUS_BUSINESS_DAY:
+    return findBusinessDay(date, -1);
+  default:
+    return date;
+  }
+}
+
+/**
+ * 日付リストに祝日の扱いを適用
+ * 移動先が重複した場合は1件にまとめ、rangeStartより前になった日付は除外する
+ * @param {Date[]} dates - 発生日リスト
+ * @param {HolidayPolicy} policy - 祝日の扱い
+ * @param {Date} rangeStart - 生成対象の開始日
+ * @return {Date[]} 調整後の日付リスト（昇順）
+ */
+export function applyHolidayPolicy(
+  dates: Date[],
+  policy: HolidayPolicy,
+  rangeStart: Date
+): Date[] {
+  if (policy === HolidayPolicy.NONE) {
+    return dates;
+  }
+  const adjusted = new Map<number, Date>();
+  dates.forEach((date) => {
+    const result = adjustForHoliday(date, policy);
+    if (result && result >= rangeStart) {
+      adjusted.set(result.getTime(), result);
+    }
+  });
+  return Array.from(adjusted.values())
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * 完了後管理のカスタム繰り返しで、完了日から次回の日付を計算
+ * スキップの場合は祝日でなくなるまで間隔を加算し、
+ * 前営業日への移動で完了日以前になる場合は移動しない
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} completedDate - 完了日（カレンダー上の日付）
+ * @return {Date} 次回の日付
+ */
+export function calculateNextCompletionBasedDate(
+  template: ScheduleTemplateData,
+  completedDate: Date
+): Date {
+  const interval = template.repeatInterval && template.repeatInterval > 0 ?
+    template.repeatInterval : 1;
+  let nextDate = new Date(
+    completedDate.getFullYear(),
+    completedDate.getMonth(),
+    completedDate.getDate() + interval
+  );
+
+  const policy = getHolidayPolicy(template);
+  if (policy === HolidayPolicy.SKIP) {
+    // 連休が続いても1年分で打ち切る
+    for (let i = 0; i < 366 && isJapaneseHoliday(nextDate); i++) {
+      nextDate = new Date(
+        nextDate.getFullYear(),
+        nextDate.getMonth(),
+        nextDate.getDate() + interval
+      );
+    }
+    return nextDate;
+  }
+
+  const adjusted = adjustForHoliday(nextDate, policy);
+  return adjusted && adjusted > completedDate ? adjusted : nextDate;
+}
+
+/**
+ * 14日先までの範囲を取得
+ * 日付はサーバーローカルの0時で表現したカレンダー上の日付
+ * @param {string} timeZone - 基準とするIANAタイムゾーン
+ * @return {Object} 今日から14日後までの開始日と終了日
+ */
+export function getGenerationRange(
+  timeZone: string = DEFAULT_TIME_ZONE
+): {startDate: Date; endDate: Date} {
+  const today = toZonedCalendarDate(new Date(), timeZone);
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const day = today.getDate();
+
+  const startDate = new Date(year, month, day);
+  const endDate = new Date(year, month, day + 14);
+
+  return {startDate, endDate};
+}
+
+/**
+ * DTSTART未指定時の起点日を取得
+ * テンプレート作成日を起点にする（隔週などの基準）
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} fallback - 作成日がない場合の起点日
+ * @param {string} timeZone - 作成日を日付に変換するIANAタイムゾーン
+ * @return {Date} 起点日（カレンダー上の日付）
+ */
+export function getTemplateAnchorDate(
+  template: ScheduleTemplateData,
+  fallback: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date {
+  return template.createdAt ?
+    toZonedCalendarDate(template.createdAt.toDate(), timeZone) :
+    fallback;
+}
+
+/**
+ * 指定日より後の繰り返しを、その最初の発生日をDTSTARTとする定義に変換
+ * 生成済みタスクの続きをカレンダーに繰り返し予定として出力するために使う
+ * COUNTは残り回数に、EXDATEは指定日より後のものだけに調整する
+ * 完了後管理・祝日の扱いあり（RRULEで表現できない）の場合はnull
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} afterDate - この日より後の発生日を対象にする
+ * @param {string} timeZone - 起点日を判定するIANAタイムゾーン
+ * @return {RecurrenceSet | null} DTSTART付きの繰り返し定義
+ */
+export function projectTemplateRecurrence(
+  template: ScheduleTemplateData,
+  afterDate: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): RecurrenceSet | null {
+  if (
+    !hasRecurrence(template) ||
+    isCompletionBasedRecurrence(template) ||
+    getHolidayPolicy(template) !== HolidayPolicy.NONE
+  ) {
+    return null;
+  }
+
+  const anchor = getTemplateAnchorDate(template, afterDate, timeZone);
+  const recurrence = getTemplateRecurrence(template, anchor);
+  if (!recurrence) {
+    return null;
+  }
+  const start = recurrence.dtstart ?? anchor;
+  const nextDay = new Date(
+    afterDate.getFullYear(),
+    afterDate.getMonth(),
+    afterDate.getDate() + 1
+  );
+
+  // EXDATEを無視して最初の発生日を探す（COUNTの消化はEXDATEに関係しない）
+  const [first] = expandRecurrence(
+    {...recurrence, exdates: new Set()},
+    start,
+    nextDay,
+    new Date(nextDay.getFullYear() + 10, nextDay.getMonth(), nextDay.getDate()),
+    1
+  );
+  if (!first) {
+    return null;
+  }
+
+  const rule = {...recurrence.rule};
+  if (rule.count !== undefined) {
+    const consumed = expandRecurrence(
+      {dtstart: start, rule: {...rule, count: undefined}, exdates: new Set()},
+      start,
+      start,
+      afterDate,
+      rule.count
+    ).length;
+    rule.count -= consumed;
+  }
+
+  const afterKey = formatDateKey(afterDate);
+  const exdates = new Set(
+    Array.from(recurrence.exdates).filter((key) => key > afterKey)
+  );
+  return {dtstart: first, rule, exdates};
+}
+
+/**
+ * 指定期間内のタスク日付リストを生成
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} startDate - 開始日
+ * @param {Date} endDate - 終了日
+ * @param {Date | null} lastTaskDate - 最後のタスク日（ない場合はnull）
+ * @param {string} timeZone - 「今日」を判定するIANAタイムゾーン
+ * @return {Date[]} タスク日付リスト
+ */
+export function generateTaskDatesForMonth(
+  template: ScheduleTemplateData,
+  startDate: Date,
+  endDate: Date,
+  lastTaskDate: Date | null = null,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date[] {
+  // 指定タイムゾーンの今日の日付を取得
+  const today = toZonedCalendarDate(new Date(), timeZone);
+  const rangeStart = startDate > today ? startDate : today;
+
+  // カスタム繰り返しは最後のタスク日（ない場合は期間開始の前日）を起点にする
+  if (isCompletionBasedRecurrence(template)) {
+    const baseDate = lastTaskDate ?
+      new Date(lastTaskDate) :
+      new Date(
+        startDate.getFullYear(),
+        startDate.getMonth(),
+        startDate.getDate() - 1
+      );
+    const recurrence = getTemplateRecurrence(template, baseDate);
+    if (!recurrence) {
+      return [];
+    }
+    const dates =
+      expandRecurrence(recurrence, baseDate, rangeStart, endDate, 100)
+        .filter((date) => date.getTime() !== baseDate.getTime());
+    return applyHolidayPolicy(dates, getHolidayPolicy(template), rangeStart);
+  }
+
+  const dtstart = getTemplateAnchorDate(template, startDate, timeZone);
+  const recurrence = getTemplateRecurrence(template, dtstart);
+  if (!recurrence) {
+    return [];
+  }
+
+  // 無限ループ防止のため最大100件
+  const dates =
+    expandRecurrence(recurrence, dtstart, rangeStart, endDate, 100);
+  return applyHolidayPolicy(dates, getHolidayPolicy(template), rangeStart);
+}
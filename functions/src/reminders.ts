@@ -0,0 +1,228 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {zonedTimeToUtc} from "./timezone";
+import {deliverOrDefer} from "./quietHours";
+import {getGroupMemberIds} from "./groups";
+import {NotificationCategory, buildActionData} from "./notificationActions";
+import {formatMessage, resolveLocale} from "./messages";
+
+/**
+ * タスクごとのリマインダーの状態
+ * pending: 送信待ち / sent: 送信済み / skipped: 完了・削除済みのため送信せず
+ * expired: 送信予定時刻から時間が経ちすぎたため送信せず
+ */
+export type ReminderStatus = "pending" | "sent" | "skipped" | "expired";
+
+/**
+ * 1回の実行で処理するリマインダーの件数（ページ単位）
+ */
+const REMINDER_PAGE_SIZE = 200;
+
+/**
+ * 1回の実行で処理するページ数の上限
+ */
+const REMINDER_MAX_PAGES = 10;
+
+/**
+ * 送信予定時刻からこれ以上遅れたリマインダーは送信しない（障害復旧時の大量送信防止）
+ */
+const REMINDER_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * リマインダー時刻（HH:mm）を解析
+ * @param {unknown} value - テンプレート・タスクのremindAt
+ * @return {Object | null} 時と分（不正な値の場合はnull）
+ */
+export function parseRemindAt(
+  value: unknown
+): {hour: number; minute: number} | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  return {hour: Number(match[1]), minute: Number(match[2])};
+}
+
+/**
+ * タスクに設定するリマインダーのフィールドを作成
+ * remindAtが未設定・不正な場合はリマインダーなし
+ * @param {unknown} remindAt - テンプレートのremindAt（HH:mm）
+ * @param {Date} taskDate - タスクの日付（カレンダー上の日付）
+ * @param {string} timeZone - 時刻の基準とするIANAタイムゾーン
+ * @return {admin.firestore.DocumentData} タスクに書き込むフィールド
+ */
+export function buildReminderFields(
+  remindAt: unknown,
+  taskDate: Date,
+  timeZone: string
+): admin.firestore.DocumentData {
+  const time = parseRemindAt(remindAt);
+  if (!time) {
+    return {remindAt: null, nextReminderAt: null, reminderStatus: null};
+  }
+  const reminderAt = zonedTimeToUtc(
+    taskDate.getFullYear(),
+    taskDate.getMonth(),
+    taskDate.getDate(),
+    timeZone,
+    time.hour,
+    time.minute
+  );
+  return {
+    remindAt,
+    nextReminderAt: admin.firestore.Timestamp.fromDate(reminderAt),
+    reminderStatus: "pending" as ReminderStatus,
+  };
+}
+
+/**
+ * リマインダーの送信先ユーザーを取得
+ * 個人タスクは所有者、グループタスクはグループの全メンバー
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.firestore.DocumentData} task - タスク
+ * @return {Promise<string[]>} ユーザーIDのリスト
+ */
+async function getReminderRecipients(
+  db: admin.firestore.Firestore,
+  task: admin.firestore.DocumentData
+): Promise<string[]> {
+  if (task.isGroupSchedule && task.groupId) {
+    const groupDoc = await db.collection("groups").doc(task.groupId).get();
+    return getGroupMemberIds(groupDoc.data());
+  }
+  return task.userId ? [task.userId as string] : [];
+}
+
+/**
+ * リマインダーを送信済みにする（送信の前に確定させ、二重送信を防ぐ）
+ * 完了・削除済みのタスクや遅れすぎたリマインダーは送信しない状態にする
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.firestore.DocumentReference} taskRef - タスク
+ * @param {Date} now - 実行時刻
+ * @return {Promise<admin.firestore.DocumentData | null>} 送信するタスク
+ */
+async function claimReminder(
+  db: admin.firestore.Firestore,
+  taskRef: admin.firestore.DocumentReference,
+  now: Date
+): Promise<admin.firestore.DocumentData | null> {
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(taskRef);
+    const task = doc.data();
+    const reminderAt =
+      (task?.nextReminderAt as admin.firestore.Timestamp | null)?.toDate();
+    if (
+      !task ||
+      task.reminderStatus !== "pending" ||
+      !reminderAt ||
+      reminderAt > now
+    ) {
+      return null;
+    }
+
+    let status: ReminderStatus = "sent";
+    if (task.completedAt || task.isDeleted === true) {
+      status = "skipped";
+    } else if (now.getTime() - reminderAt.getTime() > REMINDER_MAX_DELAY_MS) {
+      status = "expired";
+    }
+
+    transaction.update(taskRef, {
+      reminderStatus: status,
+      reminderSentAt: status === "sent" ?
+        admin.firestore.Timestamp.fromDate(now) :
+        null,
+    });
+    return status === "sent" ? task : null;
+  });
+}
+
+/**
+ * 送信時刻を過ぎたタスクのリマインダーを送信
+ * 送信状態はトランザクションで先に確定させるため、
+ * ディスパッチャーが重複して実行されても同じリマインダーは1回しか送信しない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {Date} now - 実行時刻
+ * @return {Promise<number>} 送信したリマインダーの件数
+ */
+export async function dispatchDueReminders(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  now: Date
+): Promise<number> {
+  let sentCount = 0;
+
+  for (let page = 0; page < REMINDER_MAX_PAGES; page++) {
+    const dueSnapshot = await db
+      .collection("tasks")
+      .where("reminderStatus", "==", "pending")
+      .where("nextReminderAt", "<=", admin.firestore.Timestamp.fromDate(now))
+      .orderBy("nextReminderAt", "asc")
+      .limit(REMINDER_PAGE_SIZE)
+      .get();
+
+    if (dueSnapshot.empty) {
+      break;
+    }
+
+    for (const doc of dueSnapshot.docs) {
+      try {
+        const task = await claimReminder(db, doc.ref, now);
+        if (!task) {
+          continue;
+        }
+
+        const recipients = await getReminderRecipients(db, task);
+        await Promise.all(recipients.map(async (userId) => {
+          // 受信者の言語で文言を作成
+          const userData = (await db.collection("users").doc(userId).get())
+            .data();
+          const locale = resolveLocale(userData?.locale);
+          const taskTitle = (task.title as string | undefined) ||
+            formatMessage(locale, "fallback.task");
+          await deliverOrDefer(db, messaging, userId, {
+            notification: {
+              title: formatMessage(locale, "reminder.title"),
+              body: formatMessage(locale, "reminder.body", {taskTitle}),
+            },
+            data: {
+              type: "task_reminder",
+              taskId: doc.id,
+              templateId: (task.templateId as string | undefined) ?? "",
+              groupId: (task.groupId as string | undefined) ?? "",
+              ...buildActionData(NotificationCategory.TASK_REMINDER, [doc.id]),
+            },
+            android: {
+              priority: "high",
+              notification: {
+                channelId: "default_channel",
+                priority: "high",
+              },
+            },
+            apns: {
+              payload: {
+                aps: {
+                  sound: "default",
+                  category: NotificationCategory.TASK_REMINDER,
+                },
+              },
+            },
+          }, {userData, now});
+        }));
+        sentCount++;
+      } catch (error) {
+        logger.error(`[リマインダー] 送信エラー task=${doc.id}`, error);
+      }
+    }
+
+    if (dueSnapshot.size < REMINDER_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return sentCount;
+}
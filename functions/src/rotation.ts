@@ -0,0 +1,379 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {AssigneeRotation, RotationMode, ScheduleTemplateData} from "./types";
+import {getGroupMemberIds} from "./groups";
+import {startOfZonedDay, toZonedCalendarDate} from "./timezone";
+
+/**
+ * 担当者の決定に使う過去のタスクの件数
+ */
+const ROTATION_HISTORY_LIMIT = 100;
+
+/**
+ * 1回のバッチで書き込む件数の上限
+ */
+const ROTATION_BATCH_SIZE = 450;
+
+/**
+ * 1日のミリ秒
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 担当の順番の状態
+ */
+export interface RotationState {
+  // 直前のタスク（論理削除を除く）の担当者
+  lastAssigneeId: string | null;
+  // メンバーごとの最後に担当が回ったタスクの日付（toTurnDayの通し日数）
+  lastTurnDay: Map<string, number>;
+}
+
+/**
+ * カレンダー上の日付を、担当が回った日として比較する通し日数に変換
+ * 過去のタスクも新しく割り当てるタスクも、グループのタイムゾーンでのタスクの日付で比べる
+ * @param {Date} calendarDate - サーバーローカルの0時で表現された日付
+ * @return {number} 1970-01-01からの日数
+ */
+function toTurnDay(calendarDate: Date): number {
+  return Math.round(Date.UTC(
+    calendarDate.getFullYear(),
+    calendarDate.getMonth(),
+    calendarDate.getDate()
+  ) / DAY_MS);
+}
+
+/**
+ * テンプレートに担当者のローテーションが設定されているかを判定
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @return {boolean} グループ予定でローテーションがある場合true
+ */
+export function hasAssigneeRotation(template: ScheduleTemplateData): boolean {
+  return template.isGroupSchedule === true &&
+    !!template.groupId &&
+    !!template.assigneeRotation?.mode;
+}
+
+/**
+ * ローテーションの設定が変わったかを判定
+ * @param {ScheduleTemplateData} before - 変更前のテンプレート
+ * @param {ScheduleTemplateData} after - 変更後のテンプレート
+ * @return {boolean} 変わった場合true
+ */
+export function hasRotationChanged(
+  before: ScheduleTemplateData,
+  after: ScheduleTemplateData
+): boolean {
+  return JSON.stringify(before.assigneeRotation ?? null) !==
+    JSON.stringify(after.assigneeRotation ?? null);
+}
+
+/**
+ * ローテーションの順番を取得
+ * memberIdsの順（未指定の場合はグループの全メンバー）で、グループを抜けたメンバーは除く
+ * @param {AssigneeRotation} rotation - ローテーションの設定
+ * @param {string[]} groupMemberIds - 現在のグループのメンバー
+ * @return {string[]} 担当するメンバーのユーザーID
+ */
+export function getRotationMembers(
+  rotation: AssigneeRotation,
+  groupMemberIds: string[]
+): string[] {
+  if (!rotation.memberIds || rotation.memberIds.length === 0) {
+    return groupMemberIds;
+  }
+  const current = new Set(groupMemberIds);
+  return rotation.memberIds.filter((memberId) => current.has(memberId));
+}
+
+/**
+ * 直前の担当者の次のメンバーを取得（順番どおり）
+ * 直前の担当者がグループを抜けている場合も、設定された順番の位置から次を探す
+ * @param {AssigneeRotation} rotation - ローテーションの設定
+ * @param {string[]} members - 担当するメンバー
+ * @param {string | null} lastAssigneeId - 直前の担当者
+ * @return {string | null} 担当者（メンバーがいない場合はnull）
+ */
+function nextRoundRobinAssignee(
+  rotation: AssigneeRotation,
+  members: string[],
+  lastAssigneeId: string | null
+): string | null {
+  if (members.length === 0) {
+    return null;
+  }
+  const order = rotation.memberIds && rotation.memberIds.length > 0 ?
+    rotation.memberIds :
+    members;
+  const lastIndex = lastAssigneeId ? order.indexOf(lastAssigneeId) : -1;
+  if (lastIndex < 0) {
+    return members[0];
+  }
+  const current = new Set(members);
+  for (let offset = 1; offset <= order.length; offset++) {
+    const candidate = order[(lastIndex + offset) % order.length];
+    if (current.has(candidate)) {
+      return candidate;
+    }
+  }
+  return members[0];
+}
+
+/**
+ * タスクの担当者を決定し、担当の順番の状態を進める
+ * roundRobin: 順番どおり / leastRecentlyCompleted: 最後に担当した日が最も古いメンバー
+ * weekday: 曜日ごとの担当者（未設定・グループを抜けた場合は順番どおり）
+ * @param {AssigneeRotation} rotation - ローテーションの設定
+ * @param {string[]} members - 担当するメンバー
+ * @param {RotationState} state - 担当の順番の状態（更新する）
+ * @param {Date} taskDate - タスクの日付（サーバーローカルの0時）
+ * @return {string | null} 担当者（メンバーがいない場合はnull）
+ */
+export function pickAssignee(
+  rotation: AssigneeRotation,
+  members: string[],
+  state: RotationState,
+  taskDate: Date
+): string | null {
+  let assigneeId: string | null = null;
+  const mode: RotationMode = rotation.mode;
+
+  if (mode === "weekday") {
+    const weekday = taskDate.getDay() === 0 ? 7 : taskDate.getDay();
+    const fixed = rotation.weekdayAssignees?.[String(weekday)];
+    assigneeId = fixed && members.includes(fixed) ? fixed : null;
+  } else if (mode === "leastRecentlyCompleted") {
+    // 同じ日の場合は順番どおり（一度も担当していないメンバーを優先）
+    let oldestTurnDay = Infinity;
+    for (const memberId of members) {
+      const turnDay = state.lastTurnDay.get(memberId) ?? -Infinity;
+      if (turnDay < oldestTurnDay) {
+        assigneeId = memberId;
+        oldestTurnDay = turnDay;
+      }
+    }
+  }
+
+  if (!assigneeId) {
+    assigneeId = nextRoundRobinAssignee(
+      rotation,
+      members,
+      state.lastAssigneeId
+    );
+  }
+
+  if (assigneeId) {
+    advanceRotationState(state, assigneeId, toTurnDay(taskDate));
+  }
+  return assigneeId;
+}
+
+/**
+ * 担当の順番の状態を進める
+ * @param {RotationState} state - 担当の順番の状態（更新する）
+ * @param {string} assigneeId - 担当者
+ * @param {number} turnDay - 担当が回ったタスクの日付（toTurnDayの通し日数）
+ */
+function advanceRotationState(
+  state: RotationState,
+  assigneeId: string,
+  turnDay: number
+): void {
+  state.lastAssigneeId = assigneeId;
+  state.lastTurnDay.set(
+    assigneeId,
+    Math.max(state.lastTurnDay.get(assigneeId) ?? -Infinity, turnDay)
+  );
+}
+
+/**
+ * 指定日より前のタスクから担当の順番の状態を作成
+ * 論理削除（スキップ）されたタスクは順番を消費しない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} before - この日時より前のタスクを対象にする
+ * @param {string} timeZone - グループのタイムゾーン
+ * @return {Promise<RotationState>} 担当の順番の状態
+ */
+export async function loadRotationState(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  template: ScheduleTemplateData,
+  before: Date,
+  timeZone: string
+): Promise<RotationState> {
+  const snapshot = await db
+    .collection("tasks")
+    .where("groupId", "==", template.groupId)
+    .where("templateId", "==", templateId)
+    .where("scheduledDate", "<", admin.firestore.Timestamp.fromDate(before))
+    .orderBy("scheduledDate", "desc")
+    .limit(ROTATION_HISTORY_LIMIT)
+    .get();
+
+  const state: RotationState = {lastAssigneeId: null, lastTurnDay: new Map()};
+  snapshot.docs.forEach((doc) => {
+    const task = doc.data();
+    if (task.isDeleted === true) {
+      return;
+    }
+    if (!state.lastAssigneeId && task.assigneeId) {
+      state.lastAssigneeId = task.assigneeId;
+    }
+    const completedBy = (task.completedByMemberId ?? task.assigneeId) as
+      string | null;
+    if (completedBy && task.completedAt != null) {
+      const turnDay = toTurnDay(toZonedCalendarDate(
+        (task.scheduledDate as admin.firestore.Timestamp).toDate(),
+        timeZone
+      ));
+      state.lastTurnDay.set(
+        completedBy,
+        Math.max(state.lastTurnDay.get(completedBy) ?? -Infinity, turnDay)
+      );
+    }
+  });
+  return state;
+}
+
+/**
+ * グループの現在のメンバーを取得
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} groupId - グループID
+ * @return {Promise<string[]>} ユーザーIDのリスト
+ */
+async function loadGroupMemberIds(
+  db: admin.firestore.Firestore,
+  groupId: string
+): Promise<string[]> {
+  const groupDoc = await db.collection("groups").doc(groupId).get();
+  return getGroupMemberIds(groupDoc.data());
+}
+
+/**
+ * 指定日以降のタスクの担当者を順に決める関数を作成
+ * ローテーションがないテンプレートでは常にnullを返す
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date} from - 最初に担当者を決めるタスクの日時
+ * @param {string} timeZone - グループのタイムゾーン
+ * @return {Promise<Function>} タスクの日付から担当者を返す関数（日付順に呼ぶ）
+ */
+export async function createAssigneePicker(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  template: ScheduleTemplateData,
+  from: Date,
+  timeZone: string
+): Promise<(taskDate: Date) => string | null> {
+  const rotation = template.assigneeRotation;
+  if (!rotation || !hasAssigneeRotation(template)) {
+    return () => null;
+  }
+
+  const [members, state] = await Promise.all([
+    loadGroupMemberIds(db, template.groupId as string).then(
+      (groupMemberIds) => getRotationMembers(rotation, groupMemberIds)
+    ),
+    loadRotationState(db, templateId, template, from, timeZone),
+  ]);
+  return (taskDate) => pickAssignee(rotation, members, state, taskDate);
+}
+
+/**
+ * 今日以降の未完了タスクの担当者をローテーションで割り当て直す
+ * メンバーの加入・脱退、タスクのスキップ、ローテーションの変更時に呼び出す
+ * 完了済みのタスクは担当者を変えずに順番だけ進める
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - テンプレート（グループ予定）
+ * @param {string} timeZone - 「今日」の基準とするIANAタイムゾーン
+ * @return {Promise<number>} 担当者を変更したタスク数
+ */
+export async function reassignFutureTasks(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  template: ScheduleTemplateData,
+  timeZone: string
+): Promise<number> {
+  if (!template.isGroupSchedule || !template.groupId) {
+    return 0;
+  }
+
+  const today = startOfZonedDay(new Date(), timeZone);
+  const snapshot = await db
+    .collection("tasks")
+    .where("groupId", "==", template.groupId)
+    .where("templateId", "==", templateId)
+    .where("scheduledDate", ">=", admin.firestore.Timestamp.fromDate(today))
+    .get();
+  const tasks = snapshot.docs
+    .filter((doc) => doc.data().isDeleted !== true)
+    .sort((a, b) =>
+      (a.data().scheduledDate as admin.firestore.Timestamp).toMillis() -
+      (b.data().scheduledDate as admin.firestore.Timestamp).toMillis()
+    );
+
+  const rotation = template.assigneeRotation;
+  const rotating = !!rotation && hasAssigneeRotation(template);
+  let members: string[] = [];
+  let state: RotationState = {lastAssigneeId: null, lastTurnDay: new Map()};
+  if (rotation && rotating) {
+    [members, state] = await Promise.all([
+      loadGroupMemberIds(db, template.groupId as string).then(
+        (groupMemberIds) => getRotationMembers(rotation, groupMemberIds)
+      ),
+      loadRotationState(db, templateId, template, today, timeZone),
+    ]);
+  }
+
+  let batch = db.batch();
+  let batchSize = 0;
+  let reassigned = 0;
+  for (const doc of tasks) {
+    const task = doc.data();
+    const scheduledDate = toZonedCalendarDate(
+      (task.scheduledDate as admin.firestore.Timestamp).toDate(),
+      timeZone
+    );
+
+    if (task.completedAt != null) {
+      const completedBy = task.completedByMemberId ?? task.assigneeId;
+      if (completedBy) {
+        advanceRotationState(state, completedBy, toTurnDay(scheduledDate));
+      }
+      continue;
+    }
+
+    // ローテーションがなくなった場合は担当者を外す
+    const assigneeId = rotation && rotating ?
+      pickAssignee(rotation, members, state, scheduledDate) :
+      null;
+    if ((task.assigneeId ?? null) === assigneeId) {
+      continue;
+    }
+
+    batch.update(doc.ref, {
+      assigneeId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    batchSize++;
+    reassigned++;
+    if (batchSize >= ROTATION_BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      batchSize = 0;
+    }
+  }
+  if (batchSize > 0) {
+    await batch.commit();
+  }
+
+  logger.info(
+    `[担当ローテーション] 割り当て直し: template=${templateId}, ` +
+    `tasks=${tasks.length}, reassigned=${reassigned}`
+  );
+  return reassigned;
+}
@@ -0,0 +1,611 @@
+/**
+ * RFC 5545 の RRULE を日付単位で展開するユーティリティ
+ * 日付はすべてサーバーローカルの0時で表現したカレンダー上の日付として扱う
+ *
+ * 対応: FREQ=DAILY/WEEKLY/MONTHLY/YEARLY, INTERVAL, COUNT, UNTIL,
+ *       BYDAY（序数付き可）, BYMONTHDAY（負数可）, BYMONTH, BYSETPOS, WKST,
+ *       DTSTART, EXDATE
+ */
+
+/**
+ * RRULEの解析エラー（未対応の指定を含む）
+ */
+export class RRuleParseError extends Error {
+  /**
+   * @param {string} message - エラーメッセージ
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleParseError";
+  }
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/**
+ * BYDAYの要素（weekday: 0=日曜〜6=土曜、ordinal: 第n週、負数は末尾から）
+ */
+export interface ByDay {
+  weekday: number;
+  ordinal?: number;
+}
+
+/**
+ * 解析済みのRRULE
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1〜12
+  bySetPos?: number[];
+  wkst: number;
+}
+
+/**
+ * DTSTART・RRULE・EXDATEをまとめた繰り返し定義
+ */
+export interface RecurrenceSet {
+  dtstart: Date | null;
+  rule: RecurrenceRule;
+  exdates: Set<string>;
+}
+
+const WEEKDAY_CODES: Record<string, number> = {
+  SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6,
+};
+
+/**
+ * 展開時の安全上限（無限ループ防止）
+ */
+const MAX_PERIODS = 20000;
+
+/**
+ * 日付キー（YYYY-MM-DD）を作成
+ * @param {Date} date - カレンダー上の日付
+ * @return {string} 日付キー
+ */
+export function formatDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * iCalendar形式の日付（YYYYMMDD または YYYYMMDDTHHMMSS[Z]）を解析
+ * 時刻部分は無視し、カレンダー上の日付として返す
+ * @param {string} value - 日付文字列
+ * @return {Date} カレンダー上の日付
+ */
+export function parseICalDate(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value.trim());
+  if (!match) {
+    throw new RRuleParseError(`日付の形式が不正です: ${value}`);
+  }
+  return new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3])
+  );
+}
+
+/**
+ * 整数のリストを解析
+ * @param {string} name - パラメータ名
+ * @param {string} value - カンマ区切りの値
+ * @param {number} min - 最小値（絶対値）
+ * @param {number} max - 最大値（絶対値）
+ * @param {boolean} allowNegative - 負数を許可するか
+ * @return {number[]} 整数のリスト
+ */
+function parseIntList(
+  name: string,
+  value: string,
+  min: number,
+  max: number,
+  allowNegative: boolean
+): number[] {
+  return value.split(",").map((item) => {
+    const n = Number(item);
+    const abs = Math.abs(n);
+    if (
+      !Number.isInteger(n) ||
+      abs < min ||
+      abs > max ||
+      (!allowNegative && n < 0)
+    ) {
+      throw new RRuleParseError(`${name}の値が不正です: ${item}`);
+    }
+    return n;
+  });
+}
+
+/**
+ * RRULEの値部分（FREQ=...;INTERVAL=...）を解析
+ * @param {string} value - RRULEの値
+ * @return {RecurrenceRule} 解析済みのRRULE
+ */
+export function parseRuleValue(value: string): RecurrenceRule {
+  const params = new Map<string, string>();
+  for (const part of value.split(";")) {
+    if (!part) {
+      continue;
+    }
+    const [key, val] = part.split("=");
+    if (!key || val === undefined) {
+      throw new RRuleParseError(`RRULEの形式が不正です: ${part}`);
+    }
+    params.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const freq = params.get("FREQ");
+  if (
+    freq !== "DAILY" &&
+    freq !== "WEEKLY" &&
+    freq !== "MONTHLY" &&
+    freq !== "YEARLY"
+  ) {
+    throw new RRuleParseError(`未対応のFREQです: ${freq ?? "なし"}`);
+  }
+
+  const rule: RecurrenceRule = {freq, interval: 1, wkst: 1};
+
+  for (const [key, val] of params) {
+    switch (key) {
+    case "FREQ":
+      break;
+    case "INTERVAL":
+      rule.interval = parseIntList(key, val, 1, 1000, false)[0];
+      break;
+    case "COUNT":
+      rule.count = parseIntList(key, val, 1, 10000, false)[0];
+      break;
+    case "UNTIL":
+      rule.until = parseICalDate(val);
+      break;
+    case "BYDAY":
+      rule.byDay = val.split(",").map((item) => {
+        const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+        if (!match) {
+          throw new RRuleParseError(`BYDAYの値が不正です: ${item}`);
+        }
+        const ordinal = match[1] ? Number(match[1]) : undefined;
+        const invalidOrdinal = ordinal !== undefined &&
+          (ordinal === 0 || Math.abs(ordinal) > 53);
+        if (invalidOrdinal) {
+          throw new RRuleParseError(`BYDAYの値が不正です: ${item}`);
+        }
+        return {weekday: WEEKDAY_CODES[match[2]], ordinal};
+      });
+      break;
+    case "BYMONTHDAY":
+      rule.byMonthDay = parseIntList(key, val, 1, 31, true);
+      break;
+    case "BYMONTH":
+      rule.byMonth = parseIntList(key, val, 1, 12, false);
+      break;
+    case "BYSETPOS":
+      rule.bySetPos = parseIntList(key, val, 1, 366, true);
+      break;
+    case "WKST":
+      if (!(val in WEEKDAY_CODES)) {
+        throw new RRuleParseError(`WKSTの値が不正です: ${val}`);
+      }
+      rule.wkst = WEEKDAY_CODES[val];
+      break;
+    default:
+      throw new RRuleParseError(`未対応のパラメータです: ${key}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RRuleParseError("COUNTとUNTILは同時に指定できません");
+  }
+  if (
+    rule.byDay?.some((d) => d.ordinal !== undefined) &&
+    rule.freq !== "MONTHLY" &&
+    rule.freq !== "YEARLY"
+  ) {
+    throw new RRuleParseError(
+      "序数付きBYDAYはFREQ=MONTHLY/YEARLYでのみ使用できます"
+    );
+  }
+
+  return rule;
+}
+
+/**
+ * DTSTART・RRULE・EXDATEを含む文字列を解析
+ * 「FREQ=WEEKLY;BYDAY=MO」のようなRRULEの値のみの文字列も受け付ける
+ * @param {string} text - 繰り返し定義の文字列（改行区切り）
+ * @return {RecurrenceSet} 繰り返し定義
+ */
+export function parseRecurrence(text: string): RecurrenceSet {
+  let dtstart: Date | null = null;
+  let rule: RecurrenceRule | null = null;
+  const exdates = new Set<string>();
+
+  const lines = text.split(/\r?\n/).map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    // 「FREQ=...」のみの行
+    if (colon < 0 || line.slice(0, colon).includes("=")) {
+      if (rule) {
+        throw new RRuleParseError("RRULEは1つのみ指定できます");
+      }
+      rule = parseRuleValue(line);
+      continue;
+    }
+
+    // プロパティ名（;VALUE=DATE などのパラメータは無視）
+    const name = line.slice(0, colon).split(";")[0].toUpperCase();
+    const value = line.slice(colon + 1);
+    switch (name) {
+    case "DTSTART":
+      dtstart = parseICalDate(value);
+      break;
+    case "RRULE":
+      if (rule) {
+        throw new RRuleParseError("RRULEは1つのみ指定できます");
+      }
+      rule = parseRuleValue(value);
+      break;
+    case "EXDATE":
+      value.split(",").forEach((item) => {
+        exdates.add(formatDateKey(parseICalDate(item)));
+      });
+      break;
+    default:
+      throw new RRuleParseError(`未対応のプロパティです: ${name}`);
+    }
+  }
+
+  if (!rule) {
+    throw new RRuleParseError("RRULEがありません");
+  }
+
+  return {dtstart, rule, exdates};
+}
+
+/**
+ * RecurrenceRuleをRRULEの値（FREQ=...）に変換
+ * @param {RecurrenceRule} rule - 繰り返しルール
+ * @return {string} RRULEの値
+ */
+export function formatRuleValue(rule: RecurrenceRule): string {
+  const codes = Object.keys(WEEKDAY_CODES);
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byMonth) {
+    parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  }
+  if (rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byDay) {
+    parts.push(
+      "BYDAY=" +
+      rule.byDay.map((d) => `${d.ordinal ?? ""}${codes[d.weekday]}`).join(",")
+    );
+  }
+  if (rule.bySetPos) {
+    parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  }
+  if (rule.wkst !== 1) {
+    parts.push(`WKST=${codes[rule.wkst]}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatDateKey(rule.until).replace(/-/g, "")}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * 月の日数を取得
+ * @param {number} year - 年
+ * @param {number} month - 月（0始まり）
+ * @return {number} 日数
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * 指定範囲内で曜日・序数に一致する日付を取得
+ * @param {Date} first - 範囲の初日
+ * @param {Date} last - 範囲の末日
+ * @param {ByDay[]} byDay - BYDAY
+ * @return {Date[]} 一致する日付
+ */
+function expandByDayInRange(first: Date, last: Date, byDay: ByDay[]): Date[] {
+  const result: Date[] = [];
+  for (const {weekday, ordinal} of byDay) {
+    const matches: Date[] = [];
+    const cursor = new Date(first);
+    cursor.setDate(cursor.getDate() + ((weekday - cursor.getDay() + 7) % 7));
+    while (cursor <= last) {
+      matches.push(new Date(cursor));
+      cursor.setDate(cursor.getDate() + 7);
+    }
+    if (ordinal === undefined) {
+      result.push(...matches);
+    } else {
+      const index = ordinal > 0 ? ordinal - 1 : matches.length + ordinal;
+      if (index >= 0 && index < matches.length) {
+        result.push(matches[index]);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 月内でBYMONTHDAYに一致する日付を取得（存在しない日は除外）
+ * @param {number} year - 年
+ * @param {number} month - 月（0始まり）
+ * @param {number[]} byMonthDay - BYMONTHDAY
+ * @return {Date[]} 一致する日付
+ */
+function expandByMonthDay(
+  year: number,
+  month: number,
+  byMonthDay: number[]
+): Date[] {
+  const length = daysInMonth(year, month);
+  const result: Date[] = [];
+  for (const d of byMonthDay) {
+    const day = d > 0 ? d : length + d + 1;
+    if (day >= 1 && day <= length) {
+      result.push(new Date(year, month, day));
+    }
+  }
+  return result;
+}
+
+/**
+ * 1つの月の候補日を取得（BYMONTHDAY・BYDAYの組み合わせ）
+ * @param {RecurrenceRule} rule - 繰り返しルール
+ * @param {number} year - 年
+ * @param {number} month - 月（0始まり）
+ * @param {Date} dtstart - 開始日
+ * @return {Date[]} 候補日
+ */
+function expandMonth(
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  dtstart: Date
+): Date[] {
+  const first = new Date(year, month, 1);
+  const last = new Date(year, month, daysInMonth(year, month));
+
+  if (rule.byMonthDay) {
+    const days = expandByMonthDay(year, month, rule.byMonthDay);
+    if (!rule.byDay) {
+      return days;
+    }
+    // BYDAYはBYMONTHDAYの絞り込みとして働く
+    const byDay = expandByDayInRange(first, last, rule.byDay)
+      .map((d) => d.getTime());
+    return days.filter((d) => byDay.includes(d.getTime()));
+  }
+  if (rule.byDay) {
+    return expandByDayInRange(first, last, rule.byDay);
+  }
+  return expandByMonthDay(year, month, [dtstart.getDate()]);
+}
+
+/**
+ * 1周期分の候補日を取得（BYSETPOS適用前）
+ * @param {RecurrenceRule} rule - 繰り返しルール
+ * @param {Date} dtstart - 開始日
+ * @param {number} period - 周期番号（0始まり）
+ * @return {Date[]} 候補日（昇順）
+ */
+function expandPeriod(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  period: number
+): Date[] {
+  const step = period * rule.interval;
+  let candidates: Date[] = [];
+
+  switch (rule.freq) {
+  case "DAILY": {
+    const day = new Date(
+      dtstart.getFullYear(),
+      dtstart.getMonth(),
+      dtstart.getDate() + step
+    );
+    const matchesDay = !rule.byDay ||
+      rule.byDay.some((d) => d.weekday === day.getDay());
+    const matchesMonthDay = !rule.byMonthDay ||
+      expandByMonthDay(day.getFullYear(), day.getMonth(), rule.byMonthDay)
+        .some((d) => d.getTime() === day.getTime());
+    if (matchesDay && matchesMonthDay) {
+      candidates = [day];
+    }
+    break;
+  }
+
+  case "WEEKLY": {
+    // WKSTを週の始まりとして、開始日を含む週から数える
+    const offset = (dtstart.getDay() - rule.wkst + 7) % 7;
+    const weekStart = new Date(
+      dtstart.getFullYear(),
+      dtstart.getMonth(),
+      dtstart.getDate() - offset + step * 7
+    );
+    const weekdays = rule.byDay ?
+      rule.byDay.map((d) => d.weekday) :
+      [dtstart.getDay()];
+    for (let i = 0; i < 7; i++) {
+      const day = new Date(
+        weekStart.getFullYear(),
+        weekStart.getMonth(),
+        weekStart.getDate() + i
+      );
+      if (weekdays.includes(day.getDay())) {
+        candidates.push(day);
+      }
+    }
+    break;
+  }
+
+  case "MONTHLY": {
+    const base = new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+    candidates = expandMonth(
+      rule,
+      base.getFullYear(),
+      base.getMonth(),
+      dtstart
+    );
+    break;
+  }
+
+  case "YEARLY": {
+    const year = dtstart.getFullYear() + step;
+    if (!rule.byMonth && rule.byDay && !rule.byMonthDay) {
+      // BYMONTHなしのBYDAYは年内の第n曜日
+      candidates = expandByDayInRange(
+        new Date(year, 0, 1),
+        new Date(year, 11, 31),
+        rule.byDay
+      );
+    } else {
+      const months = rule.byMonth ?
+        rule.byMonth.map((m) => m - 1) :
+        [dtstart.getMonth()];
+      for (const month of months) {
+        candidates.push(...expandMonth(rule, year, month, dtstart));
+      }
+    }
+    break;
+  }
+  }
+
+  if (rule.byMonth) {
+    candidates = candidates.filter((d) =>
+      rule.byMonth?.includes(d.getMonth() + 1)
+    );
+  }
+
+  // 重複を除いて昇順に並べる
+  const unique = new Map<number, Date>();
+  candidates.forEach((d) => unique.set(d.getTime(), d));
+  const sorted = Array.from(unique.values())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (!rule.bySetPos) {
+    return sorted;
+  }
+  const selected: Date[] = [];
+  for (const pos of rule.bySetPos) {
+    const index = pos > 0 ? pos - 1 : sorted.length + pos;
+    if (index >= 0 && index < sorted.length) {
+      selected.push(sorted[index]);
+    }
+  }
+  return selected.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * 周期の初日を取得（展開の打ち切り判定用）
+ * @param {RecurrenceRule} rule - 繰り返しルール
+ * @param {Date} dtstart - 開始日
+ * @param {number} period - 周期番号（0始まり）
+ * @return {Date} 周期の初日
+ */
+function periodStartDate(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  period: number
+): Date {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+  case "DAILY":
+    return new Date(
+      dtstart.getFullYear(),
+      dtstart.getMonth(),
+      dtstart.getDate() + step
+    );
+  case "WEEKLY": {
+    const offset = (dtstart.getDay() - rule.wkst + 7) % 7;
+    return new Date(
+      dtstart.getFullYear(),
+      dtstart.getMonth(),
+      dtstart.getDate() - offset + step * 7
+    );
+  }
+  case "MONTHLY":
+    return new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+  case "YEARLY":
+    return new Date(dtstart.getFullYear() + step, 0, 1);
+  }
+}
+
+/**
+ * 繰り返し定義を展開して期間内の日付を取得
+ * COUNTは開始日から数えるため、期間より前の発生も内部的に数える
+ * @param {RecurrenceSet} recurrence - 繰り返し定義
+ * @param {Date} dtstart - DTSTARTが指定されていない場合の開始日
+ * @param {Date} rangeStart - 期間の開始日（含む）
+ * @param {Date} rangeEnd - 期間の終了日（含む）
+ * @param {number} limit - 返す日付の最大件数
+ * @return {Date[]} 期間内の日付（昇順）
+ */
+export function expandRecurrence(
+  recurrence: RecurrenceSet,
+  dtstart: Date,
+  rangeStart: Date,
+  rangeEnd: Date,
+  limit = 366
+): Date[] {
+  const {rule, exdates} = recurrence;
+  const start = recurrence.dtstart ?? dtstart;
+  const dates: Date[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const periodStart = periodStartDate(rule, start, period);
+    if (periodStart > rangeEnd || (rule.until && periodStart > rule.until)) {
+      break;
+    }
+
+    const candidates = expandPeriod(rule, start, period);
+
+    for (const date of candidates) {
+      if (date < start) {
+        continue;
+      }
+      if (rule.until && date > rule.until) {
+        return dates;
+      }
+      if (date > rangeEnd) {
+        return dates;
+      }
+      emitted++;
+      if (rule.count !== undefined && emitted > rule.count) {
+        return dates;
+      }
+      if (date >= rangeStart && !exdates.has(formatDateKey(date))) {
+        dates.push(date);
+        if (dates.length >= limit) {
+          return dates;
+        }
+      }
+    }
+  }
+
+  return dates;
+}
@@ -0,0 +1,356 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {
+  calendarDateToZonedMidnight,
+  resolveTimeZone,
+  toZonedCalendarDate,
+  toZonedDateKey,
+} from "./timezone";
+import {DeviceMessage, toDataListJson} from "./fcm";
+import {SummaryTotals, buildSummaryMessage, resolveLocale} from "./messages";
+import {getUserGroups} from "./groups";
+import {
+  BatchedSendSummary,
+  LocalHourTarget,
+  findUsersAtLocalHour,
+  sendToTargetUsers,
+} from "./digest";
+
+/**
+ * 曜日を指定しない場合の曜日（日曜）
+ */
+const DEFAULT_SUMMARY_WEEKDAY = 7;
+
+/**
+ * ふりかえる日数・今後の予定を数える日数
+ */
+const SUMMARY_DAYS = 7;
+
+/**
+ * ふりかえりの対象期間（いずれも開始を含み終了を含まない）
+ */
+interface SummaryPeriod {
+  // ふりかえる期間（今日までの7日間）
+  start: Date;
+  end: Date;
+  // 今後の予定を数える期間の終了（今日からの7日間）
+  nextEnd: Date;
+  // 開始の日付から終了の前日までの日付キー
+  dayKeys: string[];
+}
+
+/**
+ * 1件の所有者（ユーザー・グループ）の集計
+ */
+interface SummaryStats {
+  scheduledCount: number;
+  completedCount: number;
+  overdueCount: number;
+  nextCount: number;
+  // 日付キーごとのタスク数と完了数
+  days: Map<string, {total: number; completed: number}>;
+}
+
+/**
+ * グループの集計を同じ実行内で使い回すためのキャッシュ
+ * キーはグループIDとタイムゾーン（期間はメンバーのタイムゾーンで決まる）
+ */
+type GroupStatsCache = Map<string, Promise<SummaryStats>>;
+
+/**
+ * ふりかえりの1回の実行結果（ログベースの指標として出力する）
+ */
+export interface SummaryRunSummary extends BatchedSendSummary {
+  hour: number;
+  durationMs: number;
+}
+
+/**
+ * ユーザーのタイムゾーンでの今日が、ふりかえりを送る曜日かどうかを判定
+ * @param {LocalHourTarget} target - 設定した時になったユーザー
+ * @param {Date} now - 実行時刻
+ * @return {boolean} 送る場合true
+ */
+function isSummaryWeekday(target: LocalHourTarget, now: Date): boolean {
+  const today = toZonedCalendarDate(now, resolveTimeZone(target.data.timeZone));
+  const weekday = today.getDay() === 0 ? 7 : today.getDay();
+  const summaryWeekday = target.data.summaryWeekday ?? DEFAULT_SUMMARY_WEEKDAY;
+  return weekday === summaryWeekday;
+}
+
+/**
+ * ふりかえりの対象期間を計算（今日までの7日間と今日からの7日間）
+ * @param {Date} now - 実行時刻
+ * @param {string} timeZone - ユーザーのタイムゾーン
+ * @return {SummaryPeriod} 対象期間
+ */
+export function getSummaryPeriod(now: Date, timeZone: string): SummaryPeriod {
+  const today = toZonedCalendarDate(now, timeZone);
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const day = today.getDate();
+  const startDate = new Date(year, month, day - SUMMARY_DAYS);
+  const nextEndDate = new Date(year, month, day + SUMMARY_DAYS);
+
+  const dayKeys: string[] = [];
+  for (
+    let date = startDate;
+    date < today;
+    date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+  ) {
+    dayKeys.push(toZonedDateKey(
+      calendarDateToZonedMidnight(date, timeZone),
+      timeZone
+    ));
+  }
+
+  return {
+    start: calendarDateToZonedMidnight(startDate, timeZone),
+    end: calendarDateToZonedMidnight(today, timeZone),
+    nextEnd: calendarDateToZonedMidnight(nextEndDate, timeZone),
+    dayKeys,
+  };
+}
+
+/**
+ * 1件の所有者のふりかえりを集計
+ * 期間内の予定・完了は日付ごとに数え、遅延・今後の予定は集計クエリで数える
+ * 論理削除したタスクは数えない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} ownerField - 個人タスクはuserId、グループタスクはgroupId
+ * @param {string} ownerId - ユーザーIDまたはグループID
+ * @param {SummaryPeriod} period - 対象期間
+ * @param {string} timeZone - 日付の基準とするIANAタイムゾーン
+ * @return {Promise<SummaryStats>} 集計
+ */
+async function collectSummaryStats(
+  db: admin.firestore.Firestore,
+  ownerField: "userId" | "groupId",
+  ownerId: string,
+  period: SummaryPeriod,
+  timeZone: string
+): Promise<SummaryStats> {
+  const tasks = db
+    .collection("tasks")
+    .where(ownerField, "==", ownerId)
+    .where("isDeleted", "==", false);
+  const pendingTasks = tasks.where("completedAt", "==", null);
+  const toTimestamp = admin.firestore.Timestamp.fromDate;
+
+  const [periodSnapshot, overdueSnapshot, nextSnapshot] = await Promise.all([
+    tasks
+      .where("scheduledDate", ">=", toTimestamp(period.start))
+      .where("scheduledDate", "<", toTimestamp(period.end))
+      .select("scheduledDate", "completedAt")
+      .get(),
+    pendingTasks
+      .where("scheduledDate", "<", toTimestamp(period.end))
+      .count()
+      .get(),
+    pendingTasks
+      .where("scheduledDate", ">=", toTimestamp(period.end))
+      .where("scheduledDate", "<", toTimestamp(period.nextEnd))
+      .count()
+      .get(),
+  ]);
+
+  const days = new Map<string, {total: number; completed: number}>();
+  let completedCount = 0;
+  periodSnapshot.docs.forEach((doc) => {
+    const task = doc.data();
+    const dateKey = toZonedDateKey(
+      (task.scheduledDate as admin.firestore.Timestamp).toDate(),
+      timeZone
+    );
+    const day = days.get(dateKey) ?? {total: 0, completed: 0};
+    day.total++;
+    if (task.completedAt != null) {
+      day.completed++;
+      completedCount++;
+    }
+    days.set(dateKey, day);
+  });
+
+  return {
+    scheduledCount: periodSnapshot.size,
+    completedCount,
+    overdueCount: overdueSnapshot.data().count,
+    nextCount: nextSnapshot.data().count,
+    days,
+  };
+}
+
+/**
+ * 期間内の最長の連続達成日数を計算
+ * タスクがある日のうち、すべて完了した日が続いた日数（タスクがない日は数えずに続ける）
+ * @param {string[]} dayKeys - 期間の日付キー（古い順）
+ * @param {SummaryStats[]} stats - 合算する集計
+ * @return {number} 最長の連続達成日数
+ */
+export function getLongestStreak(
+  dayKeys: string[],
+  stats: SummaryStats[]
+): number {
+  let longest = 0;
+  let current = 0;
+  dayKeys.forEach((dateKey) => {
+    let total = 0;
+    let completed = 0;
+    stats.forEach((item) => {
+      const day = item.days.get(dateKey);
+      total += day?.total ?? 0;
+      completed += day?.completed ?? 0;
+    });
+    if (total === 0) {
+      return;
+    }
+    current = completed === total ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+}
+
+/**
+ * 1ユーザー分のふりかえりのメッセージを作成
+ * 個人のタスクと、所属する全グループのタスクを合算する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} userId - ユーザーID
+ * @param {admin.firestore.DocumentData} userData - ユーザー
+ * @param {Date} now - 実行時刻
+ * @param {GroupStatsCache} groupStatsCache - グループの集計のキャッシュ
+ * @return {Promise<DeviceMessage>} 送信メッセージ（トークン以外）
+ */
+async function buildSummaryDeviceMessage(
+  db: admin.firestore.Firestore,
+  userId: string,
+  userData: admin.firestore.DocumentData,
+  now: Date,
+  groupStatsCache: GroupStatsCache
+): Promise<DeviceMessage> {
+  const timeZone = resolveTimeZone(userData.timeZone);
+  const period = getSummaryPeriod(now, timeZone);
+  const [personal, groupDocs] = await Promise.all([
+    collectSummaryStats(db, "userId", userId, period, timeZone),
+    getUserGroups(db, userId),
+  ]);
+  const groups = await Promise.all(groupDocs.map(async (groupDoc) => {
+    const cacheKey = `${groupDoc.id}|${timeZone}`;
+    let stats = groupStatsCache.get(cacheKey);
+    if (!stats) {
+      stats = collectSummaryStats(db, "groupId", groupDoc.id, period, timeZone);
+      groupStatsCache.set(cacheKey, stats);
+    }
+    return {groupId: groupDoc.id, stats: await stats};
+  }));
+
+  const allStats = [personal, ...groups.map((group) => group.stats)];
+  const sum = (key: "scheduledCount" | "completedCount" |
+    "overdueCount" | "nextCount") =>
+    allStats.reduce((total, stats) => total + stats[key], 0);
+  const totals: SummaryTotals = {
+    scheduledCount: sum("scheduledCount"),
+    completedCount: sum("completedCount"),
+    overdueCount: sum("overdueCount"),
+    nextCount: sum("nextCount"),
+    longestStreak: getLongestStreak(period.dayKeys, allStats),
+  };
+
+  const locale = resolveLocale(userData.locale);
+  const {title, body} = buildSummaryMessage(locale, totals);
+  const groupStats = groups
+    .filter((group) => group.stats.scheduledCount > 0 ||
+      group.stats.overdueCount > 0 || group.stats.nextCount > 0)
+    .map((group) => ({
+      groupId: group.groupId,
+      scheduledCount: group.stats.scheduledCount,
+      completedCount: group.stats.completedCount,
+      overdueCount: group.stats.overdueCount,
+      nextCount: group.stats.nextCount,
+    }));
+
+  return {
+    notification: {title, body},
+    data: {
+      type: "summary_digest",
+      periodStart: toZonedDateKey(period.start, timeZone),
+      periodEnd: toZonedDateKey(period.end, timeZone),
+      scheduledCount: totals.scheduledCount.toString(),
+      completedCount: totals.completedCount.toString(),
+      overdueCount: totals.overdueCount.toString(),
+      nextCount: totals.nextCount.toString(),
+      longestStreak: totals.longestStreak.toString(),
+      personalScheduledCount: personal.scheduledCount.toString(),
+      personalCompletedCount: personal.completedCount.toString(),
+      // [{groupId, scheduledCount, completedCount, overdueCount, nextCount}]の
+      // JSON（タスクがあるグループのみ、グループ名はアプリ側で取得する）
+      groupStats: toDataListJson(groupStats),
+    },
+    android: {
+      notification: {
+        channelId: "default_channel",
+      },
+    },
+    apns: {
+      payload: {
+        aps: {
+          sound: "default",
+        },
+      },
+    },
+  };
+}
+
+/**
+ * 指定された時刻の週次のふりかえりをまとめて送信
+ * ユーザーのタイムゾーンで設定の曜日・時になったユーザーに、
+ * 時刻指定のお知らせと同じくsendToTargetUsersでまとめて送信する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {admin.messaging.Messaging} messaging - FCMインスタンス
+ * @param {number} hour - 実行時刻（日本時間 0-23）
+ * @param {Date} now - 実行時刻
+ * @return {Promise<SummaryRunSummary>} 実行結果
+ */
+export async function runSummaryDigest(
+  db: admin.firestore.Firestore,
+  messaging: admin.messaging.Messaging,
+  hour: number,
+  now: Date
+): Promise<SummaryRunSummary> {
+  const startedAt = Date.now();
+  const hourTargets = await findUsersAtLocalHour(
+    db,
+    "summaryEnabled",
+    "summaryHour",
+    hour,
+    now,
+    ["summaryWeekday"]
+  );
+  const targets = new Map(
+    Array.from(hourTargets).filter(([, target]) =>
+      isSummaryWeekday(target, now)
+    )
+  );
+
+  const groupStatsCache: GroupStatsCache = new Map();
+  const sendSummary = await sendToTargetUsers(
+    db,
+    messaging,
+    targets,
+    now,
+    (userId, userData) =>
+      buildSummaryDeviceMessage(db, userId, userData, now, groupStatsCache),
+    "ふりかえり"
+  );
+
+  const summary: SummaryRunSummary = {
+    hour,
+    ...sendSummary,
+    durationMs: Date.now() - startedAt,
+  };
+  // ログベースの指標（metric=summary_digest_run）として集計する
+  logger.info(`${hour}時のふりかえり送信結果`, {
+    metric: "summary_digest_run",
+    ...summary,
+  });
+  return summary;
+}
@@ -0,0 +1,257 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {ScheduleTemplateData} from "./types";
+import {
+  generateTaskDatesForMonth,
+  getGenerationRange,
+  isCompletionBasedRecurrence,
+} from "./recurrence";
+import {RRuleParseError} from "./rrule";
+import {buildTaskDocument} from "./taskSchema";
+import {createAssigneePicker} from "./rotation";
+import {
+  DEFAULT_TIME_ZONE,
+  calendarDateToZonedMidnight,
+  resolveTimeZone,
+  toZonedCalendarDate,
+  toZonedDateKey,
+} from "./timezone";
+
+/**
+ * テンプレート1件分のタスク生成結果
+ */
+export interface TemplateGenerationResult {
+  created: number;
+  planned: number;
+  // rruleが解析できなかった場合のエラー内容
+  invalidRule?: string;
+}
+
+/**
+ * ユーザーのタイムゾーンを取得
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string | undefined} userId - ユーザーID
+ * @return {Promise<string>} IANAタイムゾーン（未設定の場合はAsia/Tokyo）
+ */
+export async function getUserTimeZone(
+  db: admin.firestore.Firestore,
+  userId: string | undefined
+): Promise<string> {
+  if (!userId) {
+    return DEFAULT_TIME_ZONE;
+  }
+  const userDoc = await db.collection("users").doc(userId).get();
+  return resolveTimeZone(userDoc.data()?.timeZone);
+}
+
+/**
+ * グループのタイムゾーンを取得（オーナーのタイムゾーンを使用）
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} groupId - グループID
+ * @return {Promise<string>} IANAタイムゾーン
+ */
+export async function getGroupTimeZone(
+  db: admin.firestore.Firestore,
+  groupId: string
+): Promise<string> {
+  const groupDoc = await db.collection("groups").doc(groupId).get();
+  return getUserTimeZone(db, groupDoc.data()?.ownerId);
+}
+
+/**
+ * 生成タスクのドキュメントIDを作成
+ * テンプレートIDと日付キーから決まるため、同時実行されても同じ日のタスクは1件になる
+ * @param {string} templateId - テンプレートID
+ * @param {string} dateKey - 日付キー（YYYY-MM-DD）
+ * @return {string} タスクのドキュメントID
+ */
+export function buildTaskId(templateId: string, dateKey: string): string {
+  return `${templateId}_${dateKey}`;
+}
+
+/**
+ * Firestoreの「既に存在する」エラーかどうかを判定
+ * @param {unknown} error - エラー
+ * @return {boolean} ALREADY_EXISTSの場合true
+ */
+export function isAlreadyExistsError(error: unknown): boolean {
+  const code = (error as {code?: number | string}).code;
+  return code === 6 || code === "already-exists";
+}
+
+/**
+ * テンプレートのタスクを生成期間（14日先）まで補充
+ * 既存タスク（論理削除を含む）がある日付には生成しない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - テンプレートデータ
+ * @param {string} timeZone - 日付の基準とするIANAタイムゾーン
+ * @param {string} logPrefix - ログの接頭辞（例: "[個人タスク生成]"）
+ * @return {Promise<TemplateGenerationResult>} 生成結果
+ */
+export async function generateTemplateTasks(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  template: ScheduleTemplateData,
+  timeZone: string,
+  logPrefix: string
+): Promise<TemplateGenerationResult> {
+  const {startDate, endDate} = getGenerationRange(timeZone);
+
+  logger.info(
+    `${logPrefix} テンプレート処理開始: ` +
+    `id=${templateId}, title=${template.title}, ` +
+    `repeatType=${template.repeatType}, ` +
+    `weekdays=${JSON.stringify(template.selectedWeekdays)}, ` +
+    `期間=${startDate.toISOString()} - ${endDate.toISOString()}`
+  );
+
+  // 個人予定はuserId、グループ予定はgroupIdで既存タスクを絞り込む
+  const ownerQuery = template.isGroupSchedule ?
+    db
+      .collection("tasks")
+      .where("groupId", "==", template.groupId)
+      .where("templateId", "==", templateId) :
+    db
+      .collection("tasks")
+      .where("userId", "==", template.userId)
+      .where("templateId", "==", templateId);
+
+  // 既存タスクの日付を取得（期間内のすべて）
+  const rangeStart = calendarDateToZonedMidnight(startDate, timeZone);
+  const rangeEnd = calendarDateToZonedMidnight(
+    new Date(
+      endDate.getFullYear(),
+      endDate.getMonth(),
+      endDate.getDate() + 1
+    ),
+    timeZone
+  );
+  const existingTaskSnapshot = await ownerQuery
+    .where(
+      "scheduledDate",
+      ">=",
+      admin.firestore.Timestamp.fromDate(rangeStart)
+    )
+    .where(
+      "scheduledDate",
+      "<",
+      admin.firestore.Timestamp.fromDate(rangeEnd)
+    )
+    .get();
+
+  // 既存タスクの日付セット作成(isDeleted含む=再生成防止)
+  const existingDates = new Set<string>();
+  existingTaskSnapshot.docs.forEach((doc) => {
+    // 論理削除タスクも含める(削除済み日付への再生成を防止)
+    const sd = doc.data().scheduledDate as admin.firestore.Timestamp;
+    existingDates.add(toZonedDateKey(sd.toDate(), timeZone));
+  });
+
+  if (existingDates.size > 0) {
+    logger.info(
+      `${logPrefix} 既存タスク検出: ` +
+      `template=${templateId}, count=${existingDates.size}`
+    );
+  }
+
+  // カスタム繰り返しの場合のみ、最後のタスク日を取得
+  let lastTaskDate: Date | null = null;
+  if (isCompletionBasedRecurrence(template)) {
+    const lastTaskSnapshot = await ownerQuery
+      .orderBy("scheduledDate", "desc")
+      .limit(1)
+      .get();
+
+    lastTaskDate = !lastTaskSnapshot.empty ?
+      toZonedCalendarDate(
+        (lastTaskSnapshot.docs[0].data()
+          .scheduledDate as admin.firestore.Timestamp).toDate(),
+        timeZone
+      ) :
+      null;
+
+    const lastTaskDateStr = lastTaskDate ?
+      lastTaskDate.toISOString() : "なし";
+    logger.info(
+      `${logPrefix} カスタム繰り返し最終タスク日: ` +
+      `template=${templateId}, lastTaskDate=${lastTaskDateStr}`
+    );
+  }
+
+  // この期間のタスク日付リストを生成
+  let taskDates: Date[];
+  try {
+    taskDates = generateTaskDatesForMonth(
+      template,
+      startDate,
+      endDate,
+      lastTaskDate,
+      timeZone
+    );
+  } catch (error) {
+    if (error instanceof RRuleParseError) {
+      logger.warn(
+        `${logPrefix} rruleを解析できません: template=${templateId}, ` +
+        `rrule=${template.rrule}, error=${error.message}`
+      );
+      return {created: 0, planned: 0, invalidRule: error.message};
+    }
+    throw error;
+  }
+
+  // 日ごとに重複チェックしてタスクを作成
+  // グループ予定の担当者は最初に作成する日の直前のタスクから順番を引き継ぐ
+  let createdCount = 0;
+  let assign: ((taskDate: Date) => string | null) | null = null;
+  for (const taskDate of taskDates) {
+    const year = taskDate.getFullYear();
+    const month = (taskDate.getMonth() + 1)
+      .toString().padStart(2, "0");
+    const day = taskDate.getDate().toString().padStart(2, "0");
+    const dateKey = `${year}-${month}-${day}`;
+
+    // この日付が既に存在する場合はスキップ
+    if (existingDates.has(dateKey)) {
+      continue;
+    }
+
+    if (!assign) {
+      assign = await createAssigneePicker(
+        db,
+        templateId,
+        template,
+        calendarDateToZonedMidnight(taskDate, timeZone),
+        timeZone
+      );
+    }
+
+    // 決定的IDで作成（既に存在する場合は作成しない）
+    const taskRef = db
+      .collection("tasks")
+      .doc(buildTaskId(templateId, dateKey));
+    const created = await taskRef.create(
+      buildTaskDocument(templateId, template, taskDate, timeZone, {
+        assigneeId: assign(taskDate),
+      })
+    ).then(() => true, (error) => {
+      if (isAlreadyExistsError(error)) {
+        return false;
+      }
+      throw error;
+    });
+
+    existingDates.add(dateKey);
+    if (created) {
+      createdCount++;
+    }
+  }
+
+  logger.info(
+    `${logPrefix} 完了: ` +
+    `template=${templateId}, ` +
+    `created=${createdCount}/${taskDates.length}`
+  );
+
+  return {created: createdCount, planned: taskDates.length};
+}
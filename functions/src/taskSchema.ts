@@ -0,0 +1,147 @@
+import * as admin from "firebase-admin";
+import {ScheduleTemplateData} from "./types";
+import {calendarDateToZonedMidnight} from "./timezone";
+import {buildReminderFields} from "./reminders";
+
+/**
+ * tasksドキュメントの現在のスキーマのバージョン
+ * 1（schemaVersionなし）: isGroupTask・groupCompletedAtを含む旧スキーマ
+ * 2: TaskDataの形式
+ */
+export const TASK_SCHEMA_VERSION = 2;
+
+/**
+ * 値がない場合にnullで補うフィールド
+ */
+const NULLABLE_TASK_FIELDS = [
+  "templateId",
+  "completedAt",
+  "completedByMemberId",
+  "groupId",
+  "weekdays",
+  "repeatInterval",
+  "monthlyDay",
+  "remindAt",
+  "nextReminderAt",
+  "reminderStatus",
+];
+
+/**
+ * テンプレートから生成するタスクのドキュメントを作成
+ * グループタスクはuserIdをnull、個人タスクはgroupIdをnullにする
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - テンプレートデータ
+ * @param {Date} taskDate - タスクの日付（サーバーローカルの0時）
+ * @param {string} timeZone - テンプレートのタイムゾーン
+ * @param {admin.firestore.DocumentData} overrides - 上書きするフィールド
+ * @return {admin.firestore.DocumentData} タスクのドキュメント
+ */
+export function buildTaskDocument(
+  templateId: string,
+  template: ScheduleTemplateData,
+  taskDate: Date,
+  timeZone: string,
+  overrides: admin.firestore.DocumentData = {}
+): admin.firestore.DocumentData {
+  const isGroupSchedule = template.isGroupSchedule === true;
+  return {
+    schemaVersion: TASK_SCHEMA_VERSION,
+    userId: isGroupSchedule ? null : template.userId,
+    templateId: templateId,
+    title: template.title,
+    description: template.description,
+    scheduledDate: admin.firestore.Timestamp.fromDate(
+      calendarDateToZonedMidnight(taskDate, timeZone)
+    ),
+    completedAt: null,
+    completedByMemberId: null,
+    assigneeId: null,
+    groupId: isGroupSchedule ? template.groupId || null : null,
+    isGroupSchedule,
+    isDeleted: false,
+    repeatType: template.repeatType,
+    weekdays: template.selectedWeekdays || null,
+    repeatInterval: template.repeatInterval || null,
+    monthlyDay: template.monthlyDay || null,
+    ...buildReminderFields(template.remindAt, taskDate, timeZone),
+    ...overrides,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * タスクが完了済みかどうかを判定
+ * 移行前のドキュメントの完了日時（groupCompletedAt）も完了として扱う
+ * @param {admin.firestore.DocumentData} data - タスクのデータ
+ * @return {boolean} 完了済みの場合true
+ */
+export function isTaskCompleted(data: admin.firestore.DocumentData): boolean {
+  return data.completedAt != null || data.groupCompletedAt != null;
+}
+
+/**
+ * タスクのスキーマ移行の内容
+ */
+export interface TaskNormalization {
+  // 書き込むフィールド（削除はFieldValue.delete()）
+  updates: admin.firestore.DocumentData;
+  // 変更したフィールド名
+  changes: string[];
+}
+
+/**
+ * タスクのドキュメントを現在のスキーマに正規化する
+ * 旧フィールドを移して削除し、欠けているフィールドを既定値で補う
+ * @param {admin.firestore.DocumentData} data - タスクのデータ
+ * @return {TaskNormalization} 書き込む内容（変更がない場合はchangesが空）
+ */
+export function normalizeTaskData(
+  data: admin.firestore.DocumentData
+): TaskNormalization {
+  const updates: admin.firestore.DocumentData = {};
+  const changes: string[] = [];
+  const set = (field: string, value: unknown) => {
+    updates[field] = value;
+    changes.push(field);
+  };
+
+  // 旧スキーマのグループタスクのフラグ
+  if (data.isGroupTask !== undefined) {
+    if (typeof data.isGroupSchedule !== "boolean") {
+      updates.isGroupSchedule = data.isGroupTask === true;
+    }
+    set("isGroupTask", admin.firestore.FieldValue.delete());
+  } else if (typeof data.isGroupSchedule !== "boolean") {
+    set("isGroupSchedule", data.groupId != null);
+  }
+
+  // 旧スキーマのグループタスクの完了日時
+  if (data.groupCompletedAt !== undefined) {
+    if (data.completedAt == null && data.groupCompletedAt != null) {
+      updates.completedAt = data.groupCompletedAt;
+    }
+    set("groupCompletedAt", admin.firestore.FieldValue.delete());
+  }
+
+  if (typeof data.isDeleted !== "boolean") {
+    set("isDeleted", false);
+  }
+  if (typeof data.description !== "string") {
+    set("description", "");
+  }
+  if (typeof data.repeatType !== "string") {
+    set("repeatType", "none");
+  }
+  NULLABLE_TASK_FIELDS.forEach((field) => {
+    if (data[field] === undefined && !(field in updates)) {
+      set(field, null);
+    }
+  });
+
+  if (changes.length > 0 || data.schemaVersion !== TASK_SCHEMA_VERSION) {
+    set("schemaVersion", TASK_SCHEMA_VERSION);
+  }
+
+  return {updates, changes};
+}
@@ -0,0 +1,455 @@
+import * as admin from "firebase-admin";
+import {calendarDateToZonedMidnight, toZonedDateKey} from "./timezone";
+import {isTaskCompleted} from "./taskSchema";
+
+/**
+ * 日ごとの集計を保存するコレクション
+ * task_stats/{scopeType}_{scopeId}/days/{scheduledDateのミリ秒}
+ */
+export const TASK_STATS_COLLECTION = "task_stats";
+
+/**
+ * タスクごとに集計済みの内容を保存するコレクション（ドキュメントIDはタスクID）
+ * 集計の反映では、トランザクション内でタスクを読み直し、ここに保存した前回の内容との
+ * 差分だけを加算する。トリガーの再実行・順不同の配信やバックフィルと重なっても、
+ * 各タスクは最新の内容で一度だけ数えられる
+ */
+export const TASK_STATS_ENTRIES_COLLECTION = "task_stats_entries";
+
+/**
+ * 集計の単位
+ * user: 個人タスク / template: テンプレート / group: グループタスク
+ */
+export type TaskStatsScope = "user" | "template" | "group";
+
+/**
+ * 統計を返す期間の上限（日数）
+ */
+export const MAX_TASK_STATS_DAYS = 366;
+
+/**
+ * 期間を省略した場合の日数（今日まで）
+ */
+const DEFAULT_TASK_STATS_DAYS = 30;
+
+/**
+ * 1件のタスクの集計内容
+ */
+interface TaskStatsEntry {
+  // 加算先の集計（{scopeType}_{scopeId}）
+  scopeKeys: string[];
+  scheduledMillis: number;
+  completed: boolean;
+  // 予定日（0時）から完了までの時間（前倒しの完了は0）
+  delayMs: number;
+}
+
+/**
+ * 日ごとの集計の増分
+ */
+interface DayStatsDelta {
+  scopeKey: string;
+  scheduledMillis: number;
+  scheduledCount: number;
+  completedCount: number;
+  delayMsTotal: number;
+}
+
+/**
+ * 日ごとの集計（同じ日付の集計ドキュメントは合算する）
+ */
+interface DayStats {
+  dateKey: string;
+  weekday: number;
+  scheduledCount: number;
+  completedCount: number;
+}
+
+/**
+ * 曜日ごとの集計（1=月曜〜7=日曜）
+ */
+export interface WeekdayStats {
+  weekday: number;
+  scheduledCount: number;
+  completedCount: number;
+  completionRate: number | null;
+}
+
+/**
+ * 期間の統計
+ */
+export interface TaskStatsResult {
+  scheduledCount: number;
+  completedCount: number;
+  completionRate: number | null;
+  currentStreak: number;
+  longestStreak: number;
+  averageDelayHours: number | null;
+  weekdays: WeekdayStats[];
+}
+
+/**
+ * 集計ドキュメントのキーを作成
+ * @param {TaskStatsScope} scopeType - 集計の単位
+ * @param {string} scopeId - ユーザーID・テンプレートID・グループID
+ * @return {string} 集計ドキュメントのID
+ */
+export function buildStatsScopeKey(
+  scopeType: TaskStatsScope,
+  scopeId: string
+): string {
+  return `${scopeType}_${scopeId}`;
+}
+
+/**
+ * タスクの集計内容を作成
+ * 論理削除したタスク・予定日のないタスクは数えない
+ * 個人タスクはユーザー、グループタスクはグループの集計に加算する
+ * @param {admin.firestore.DocumentData | undefined} data - タスクのデータ
+ * @return {TaskStatsEntry | null} 集計内容（数えない場合はnull）
+ */
+export function buildTaskStatsEntry(
+  data: admin.firestore.DocumentData | undefined
+): TaskStatsEntry | null {
+  const scheduledDate =
+    data?.scheduledDate as admin.firestore.Timestamp | undefined;
+  if (!data || data.isDeleted === true || !scheduledDate) {
+    return null;
+  }
+
+  const scopeKeys: string[] = [];
+  if (data.groupId) {
+    scopeKeys.push(buildStatsScopeKey("group", data.groupId));
+  } else if (data.userId) {
+    scopeKeys.push(buildStatsScopeKey("user", data.userId));
+  }
+  if (data.templateId) {
+    scopeKeys.push(buildStatsScopeKey("template", data.templateId));
+  }
+  if (scopeKeys.length === 0) {
+    return null;
+  }
+
+  const completed = isTaskCompleted(data);
+  const completedAt = (
+    (data.completedAt ?? data.groupCompletedAt) as
+      admin.firestore.Timestamp | null | undefined
+  )?.toMillis();
+  const scheduledMillis = scheduledDate.toMillis();
+  return {
+    scopeKeys,
+    scheduledMillis,
+    completed,
+    delayMs: completed && completedAt != null ?
+      Math.max(completedAt - scheduledMillis, 0) :
+      0,
+  };
+}
+
+/**
+ * 前回と今回の集計内容から、日ごとの集計の増分を計算
+ * @param {TaskStatsEntry | null} before - 前回の集計内容
+ * @param {TaskStatsEntry | null} after - 今回の集計内容
+ * @return {DayStatsDelta[]} 増分（変化のない集計は含まない）
+ */
+export function diffTaskStatsEntries(
+  before: TaskStatsEntry | null,
+  after: TaskStatsEntry | null
+): DayStatsDelta[] {
+  const deltas = new Map<string, DayStatsDelta>();
+  const apply = (entry: TaskStatsEntry | null, sign: number) => {
+    entry?.scopeKeys.forEach((scopeKey) => {
+      const key = `${scopeKey}/${entry.scheduledMillis}`;
+      const delta = deltas.get(key) ?? {
+        scopeKey,
+        scheduledMillis: entry.scheduledMillis,
+        scheduledCount: 0,
+        completedCount: 0,
+        delayMsTotal: 0,
+      };
+      delta.scheduledCount += sign;
+      if (entry.completed) {
+        delta.completedCount += sign;
+        delta.delayMsTotal += sign * entry.delayMs;
+      }
+      deltas.set(key, delta);
+    });
+  };
+  apply(before, -1);
+  apply(after, 1);
+
+  return Array.from(deltas.values()).filter((delta) =>
+    delta.scheduledCount !== 0 ||
+    delta.completedCount !== 0 ||
+    delta.delayMsTotal !== 0
+  );
+}
+
+/**
+ * タスクの現在の内容を日ごとの集計に反映
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} taskId - タスクID
+ * @return {Promise<number>} 更新した集計ドキュメント数
+ */
+export async function applyTaskStats(
+  db: admin.firestore.Firestore,
+  taskId: string
+): Promise<number> {
+  const taskRef = db.collection("tasks").doc(taskId);
+  const entryRef = db.collection(TASK_STATS_ENTRIES_COLLECTION).doc(taskId);
+
+  return db.runTransaction(async (transaction) => {
+    const [taskDoc, entryDoc] =
+      await transaction.getAll(taskRef, entryRef);
+    const after = buildTaskStatsEntry(taskDoc.data());
+    const before = entryDoc.exists ?
+      entryDoc.data() as TaskStatsEntry :
+      null;
+    const deltas = diffTaskStatsEntries(before, after);
+    if (deltas.length === 0 && (before === null) === (after === null)) {
+      return 0;
+    }
+
+    deltas.forEach((delta) => {
+      const [scopeType, ...rest] = delta.scopeKey.split("_");
+      const dayRef = db
+        .collection(TASK_STATS_COLLECTION)
+        .doc(delta.scopeKey)
+        .collection("days")
+        .doc(delta.scheduledMillis.toString());
+      transaction.set(dayRef, {
+        scopeType,
+        scopeId: rest.join("_"),
+        scheduledDate:
+          admin.firestore.Timestamp.fromMillis(delta.scheduledMillis),
+        scheduledCount:
+          admin.firestore.FieldValue.increment(delta.scheduledCount),
+        completedCount:
+          admin.firestore.FieldValue.increment(delta.completedCount),
+        delayMsTotal: admin.firestore.FieldValue.increment(delta.delayMsTotal),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+    });
+
+    if (after) {
+      transaction.set(entryRef, {
+        ...after,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else if (before) {
+      transaction.delete(entryRef);
+    }
+    return deltas.length;
+  });
+}
+
+/**
+ * 日ごとの集計から連続達成日数を計算
+ * タスクがある日のうち、すべて完了した日が続いた日数（タスクがない日は数えずに続ける）
+ * 現在の連続は最後の日から数え、今日が未完了の場合はまだ途切れていないとみなす
+ * @param {DayStats[]} days - 日ごとの集計（古い順）
+ * @param {string} todayKey - 今日の日付キー
+ * @return {Object} 現在と最長の連続達成日数
+ */
+export function computeStreaks(
+  days: DayStats[],
+  todayKey: string
+): {currentStreak: number; longestStreak: number} {
+  let longestStreak = 0;
+  let streak = 0;
+  days.forEach((day) => {
+    if (day.scheduledCount === 0) {
+      return;
+    }
+    streak = day.completedCount >= day.scheduledCount ? streak + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+  });
+
+  let currentStreak = 0;
+  for (let i = days.length - 1; i >= 0; i--) {
+    const day = days[i];
+    if (day.scheduledCount === 0) {
+      continue;
+    }
+    if (day.completedCount < day.scheduledCount) {
+      if (day.dateKey === todayKey) {
+        continue;
+      }
+      break;
+    }
+    currentStreak++;
+  }
+
+  return {currentStreak, longestStreak};
+}
+
+/**
+ * 完了率を計算（小数第3位まで）
+ * @param {number} completed - 完了数
+ * @param {number} scheduled - 予定数
+ * @return {number | null} 完了率（予定がない場合はnull）
+ */
+function toCompletionRate(completed: number, scheduled: number): number | null {
+  return scheduled > 0 ? Math.round(completed / scheduled * 1000) / 1000 : null;
+}
+
+/**
+ * 期間の統計を日ごとの集計から計算
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {TaskStatsScope} scopeType - 集計の単位
+ * @param {string} scopeId - ユーザーID・テンプレートID・グループID
+ * @param {Date} startDate - 開始日（カレンダー上の日付、含む）
+ * @param {Date} endDate - 終了日（カレンダー上の日付、含む）
+ * @param {Date} today - 今日（カレンダー上の日付）
+ * @param {string} timeZone - 日付・曜日の基準とするIANAタイムゾーン
+ * @return {Promise<TaskStatsResult>} 統計
+ */
+export async function getTaskStatsForRange(
+  db: admin.firestore.Firestore,
+  scopeType: TaskStatsScope,
+  scopeId: string,
+  startDate: Date,
+  endDate: Date,
+  today: Date,
+  timeZone: string
+): Promise<TaskStatsResult> {
+  // 日付の範囲を前後1日広げて読み込み、日付キーで絞り込む
+  // （タイムゾーンを変更する前のタスクは0時の時刻がずれているため）
+  const from = calendarDateToZonedMidnight(new Date(
+    startDate.getFullYear(),
+    startDate.getMonth(),
+    startDate.getDate() - 1
+  ), timeZone);
+  const to = calendarDateToZonedMidnight(new Date(
+    endDate.getFullYear(),
+    endDate.getMonth(),
+    endDate.getDate() + 2
+  ), timeZone);
+  const snapshot = await db
+    .collection(TASK_STATS_COLLECTION)
+    .doc(buildStatsScopeKey(scopeType, scopeId))
+    .collection("days")
+    .where("scheduledDate", ">=", admin.firestore.Timestamp.fromDate(from))
+    .where("scheduledDate", "<", admin.firestore.Timestamp.fromDate(to))
+    .get();
+
+  const days: DayStats[] = [];
+  for (
+    let date = startDate;
+    date <= endDate;
+    date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+  ) {
+    days.push({
+      dateKey: formatStatsDateKey(date),
+      weekday: date.getDay() === 0 ? 7 : date.getDay(),
+      scheduledCount: 0,
+      completedCount: 0,
+    });
+  }
+  const daysByKey = new Map(days.map((day) => [day.dateKey, day]));
+
+  let delayMsTotal = 0;
+  snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    const scheduledDate =
+      (data.scheduledDate as admin.firestore.Timestamp).toDate();
+    const day = daysByKey.get(toZonedDateKey(scheduledDate, timeZone));
+    if (!day) {
+      return;
+    }
+    day.scheduledCount += data.scheduledCount ?? 0;
+    day.completedCount += data.completedCount ?? 0;
+    delayMsTotal += data.delayMsTotal ?? 0;
+  });
+
+  const weekdays: WeekdayStats[] = [1, 2, 3, 4, 5, 6, 7].map((weekday) => {
+    const items = days.filter((day) => day.weekday === weekday);
+    const scheduledCount =
+      items.reduce((sum, day) => sum + day.scheduledCount, 0);
+    const completedCount =
+      items.reduce((sum, day) => sum + day.completedCount, 0);
+    return {
+      weekday,
+      scheduledCount,
+      completedCount,
+      completionRate: toCompletionRate(completedCount, scheduledCount),
+    };
+  });
+
+  const scheduledCount =
+    days.reduce((sum, day) => sum + day.scheduledCount, 0);
+  const completedCount =
+    days.reduce((sum, day) => sum + day.completedCount, 0);
+  return {
+    scheduledCount,
+    completedCount,
+    completionRate: toCompletionRate(completedCount, scheduledCount),
+    ...computeStreaks(days, formatStatsDateKey(today)),
+    averageDelayHours: completedCount > 0 ?
+      Math.round(delayMsTotal / completedCount / (60 * 60 * 1000) * 10) / 10 :
+      null,
+    weekdays,
+  };
+}
+
+/**
+ * カレンダー上の日付の日付キー（YYYY-MM-DD）を作成
+ * @param {Date} date - サーバーローカルの0時で表現された日付
+ * @return {string} 日付キー
+ */
+export function formatStatsDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 日付キー（YYYY-MM-DD）をカレンダー上の日付に変換
+ * @param {unknown} value - 日付キー
+ * @return {Date | null} サーバーローカルの0時で表現された日付（不正な場合はnull）
+ */
+export function parseStatsDateKey(value: unknown): Date | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3])
+  );
+  return formatStatsDateKey(date) === value ? date : null;
+}
+
+/**
+ * 統計の期間を決定
+ * 終了日は今日までに切り詰め（未来のタスクで連続が途切れないように）、
+ * 開始日を省略した場合は終了日までの30日間にする
+ * @param {Date | null} start - 開始日（カレンダー上の日付）
+ * @param {Date | null} end - 終了日（カレンダー上の日付）
+ * @param {Date} today - 今日（カレンダー上の日付）
+ * @return {Object | null} 期間（不正な場合はnull）
+ */
+export function resolveStatsRange(
+  start: Date | null,
+  end: Date | null,
+  today: Date
+): {start: Date; end: Date} | null {
+  const rangeEnd = end && end < today ? end : today;
+  const rangeStart = start ?? new Date(
+    rangeEnd.getFullYear(),
+    rangeEnd.getMonth(),
+    rangeEnd.getDate() - (DEFAULT_TASK_STATS_DAYS - 1)
+  );
+  const toDayNumber = (date: Date) =>
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) /
+    (24 * 60 * 60 * 1000);
+  const days = toDayNumber(rangeEnd) - toDayNumber(rangeStart) + 1;
+  if (days < 1 || days > MAX_TASK_STATS_DAYS) {
+    return null;
+  }
+  return {start: rangeStart, end: rangeEnd};
+}
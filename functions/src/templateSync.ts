@@ -0,0 +1,504 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {ScheduleTemplateData} from "./types";
+import {
+  generateTaskDatesForMonth,
+  getGenerationRange,
+  hasRecurrence,
+  isCompletionBasedRecurrence,
+} from "./recurrence";
+import {RRuleParseError} from "./rrule";
+import {buildReminderFields} from "./reminders";
+import {
+  generateTemplateTasks,
+  getGroupTimeZone,
+  getUserTimeZone,
+} from "./taskGeneration";
+import {
+  calendarDateToZonedMidnight,
+  startOfZonedDay,
+  toZonedCalendarDate,
+  toZonedDateKey,
+} from "./timezone";
+import {chunk} from "./batching";
+
+/**
+ * システムがタスクを論理削除した理由（ユーザーによる削除は未設定）
+ * 理由が設定されたタスクだけが、条件が戻ったときに自動で復元される
+ */
+export type TaskDeleteReason =
+  | "completion_undone"
+  | "recurrence_changed"
+  | "template_deactivated"
+  | "template_deleted";
+
+/**
+ * テンプレート更新時のタスク反映結果
+ */
+export interface TemplateSyncResult {
+  updated: number;
+  deleted: number;
+  restored: number;
+  created: number;
+}
+
+/**
+ * 1回のバッチで書き込むタスクの上限
+ */
+const TASK_WRITE_BATCH_SIZE = 500;
+
+/**
+ * タスク1件分の更新内容
+ */
+interface TaskWrite {
+  ref: admin.firestore.DocumentReference;
+  data: admin.firestore.DocumentData;
+}
+
+/**
+ * 繰り返しの定義に関わるテンプレートのフィールド
+ */
+const RECURRENCE_FIELDS: (keyof ScheduleTemplateData)[] = [
+  "repeatType",
+  "repeatInterval",
+  "selectedWeekdays",
+  "monthlyDay",
+  "rrule",
+  "holidayPolicy",
+];
+
+/**
+ * 生成済みタスクにコピーされる内容のフィールド
+ */
+const CONTENT_FIELDS: (keyof ScheduleTemplateData)[] = [
+  "title",
+  "description",
+  "remindAt",
+];
+
+/**
+ * テンプレートのフィールドが変更されたかを判定
+ * @param {ScheduleTemplateData} before - 変更前
+ * @param {ScheduleTemplateData} after - 変更後
+ * @param {string[]} fields - 比較するフィールド
+ * @return {boolean} いずれかが変更された場合true
+ */
+function hasFieldChanged(
+  before: ScheduleTemplateData,
+  after: ScheduleTemplateData,
+  fields: (keyof ScheduleTemplateData)[]
+): boolean {
+  return fields.some((field) =>
+    JSON.stringify(before[field] ?? null) !==
+      JSON.stringify(after[field] ?? null)
+  );
+}
+
+/**
+ * テンプレートのタイムゾーンを取得（グループ予定はグループのオーナー）
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @return {Promise<string>} IANAタイムゾーン
+ */
+export async function getTemplateTimeZone(
+  db: admin.firestore.Firestore,
+  template: ScheduleTemplateData
+): Promise<string> {
+  return template.isGroupSchedule && template.groupId ?
+    getGroupTimeZone(db, template.groupId) :
+    getUserTimeZone(db, template.userId);
+}
+
+/**
+ * テンプレートの今日以降のタスクを取得（完了・論理削除を含む）
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {string} timeZone - 「今日」の基準とするIANAタイムゾーン
+ * @return {Promise<admin.firestore.QueryDocumentSnapshot[]>} タスク
+ */
+export async function getFutureTemplateTasks(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  template: ScheduleTemplateData,
+  timeZone: string
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  // 個人予定はuserId、グループ予定はgroupIdで絞り込む
+  const ownerQuery = template.isGroupSchedule ?
+    db
+      .collection("tasks")
+      .where("groupId", "==", template.groupId)
+      .where("templateId", "==", templateId) :
+    db
+      .collection("tasks")
+      .where("userId", "==", template.userId)
+      .where("templateId", "==", templateId);
+
+  const today = startOfZonedDay(new Date(), timeZone);
+  const snapshot = await ownerQuery
+    .where("scheduledDate", ">=", admin.firestore.Timestamp.fromDate(today))
+    .get();
+  return snapshot.docs;
+}
+
+/**
+ * テンプレートからタスクにコピーする内容を作成
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @return {admin.firestore.DocumentData} タスクに書き込むフィールド
+ */
+function buildTaskSnapshotFields(
+  template: ScheduleTemplateData
+): admin.firestore.DocumentData {
+  return {
+    title: template.title,
+    description: template.description,
+    repeatType: template.repeatType,
+    weekdays: template.selectedWeekdays || null,
+    repeatInterval: template.repeatInterval || null,
+    monthlyDay: template.monthlyDay || null,
+  };
+}
+
+/**
+ * タスクの予定日を取得
+ * @param {admin.firestore.QueryDocumentSnapshot} doc - タスク
+ * @return {Date} 予定日（所有者のタイムゾーンの0時）
+ */
+function getScheduledDate(doc: admin.firestore.QueryDocumentSnapshot): Date {
+  return (doc.data().scheduledDate as admin.firestore.Timestamp).toDate();
+}
+
+/**
+ * テンプレートの繰り返しで今日以降にタスクがあるべき日付を取得
+ * 完了ベースの繰り返しは、残すタスクの候補のうち最も早い1件だけを残す
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {Date[]} pendingDates - 残すタスクの候補（未完了タスク）の予定日
+ * @param {string} timeZone - 日付の基準とするIANAタイムゾーン
+ * @return {Set<string>} 日付キー（YYYY-MM-DD）
+ */
+function getExpectedDateKeys(
+  template: ScheduleTemplateData,
+  pendingDates: Date[],
+  timeZone: string
+): Set<string> {
+  const keys = new Set<string>();
+  if (!hasRecurrence(template) || pendingDates.length === 0) {
+    return keys;
+  }
+  pendingDates = [...pendingDates].sort((a, b) => a.getTime() - b.getTime());
+
+  if (isCompletionBasedRecurrence(template)) {
+    if (pendingDates.length > 0) {
+      keys.add(toZonedDateKey(pendingDates[0], timeZone));
+    }
+    return keys;
+  }
+
+  // 生成期間より後に移動されたタスクも判定できるよう、期間を延ばす
+  const {startDate, endDate} = getGenerationRange(timeZone);
+  const lastPending =
+    toZonedCalendarDate(pendingDates[pendingDates.length - 1], timeZone);
+  const rangeEnd = lastPending > endDate ? lastPending : endDate;
+
+  generateTaskDatesForMonth(template, startDate, rangeEnd, null, timeZone)
+    .forEach((date) => {
+      keys.add(
+        toZonedDateKey(calendarDateToZonedMidnight(date, timeZone), timeZone)
+      );
+    });
+  return keys;
+}
+
+/**
+ * タスクの更新をバッチでまとめて書き込む
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {TaskWrite[]} writes - 更新内容
+ * @return {Promise<void>}
+ */
+async function commitTaskWrites(
+  db: admin.firestore.Firestore,
+  writes: TaskWrite[]
+): Promise<void> {
+  for (const items of chunk(writes, TASK_WRITE_BATCH_SIZE)) {
+    const batch = db.batch();
+    items.forEach((item) => {
+      batch.update(item.ref, {
+        ...item.data,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * テンプレートの変更を今日以降の未完了タスクに反映
+ * 内容（タイトル・説明・リマインダー時刻）は未完了・未削除のタスクを書き換え、
+ * 繰り返しが変わった場合は合わなくなった日のタスクを論理削除し、新しい日のタスクを生成する
+ * 過去のタスク・完了済みのタスク・ユーザーが削除したタスクは変更しない
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} before - 変更前のテンプレート
+ * @param {ScheduleTemplateData} after - 変更後のテンプレート
+ * @return {Promise<TemplateSyncResult>} 反映結果
+ */
+export async function syncTemplateTasks(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  before: ScheduleTemplateData,
+  after: ScheduleTemplateData
+): Promise<TemplateSyncResult> {
+  const result: TemplateSyncResult = {
+    updated: 0,
+    deleted: 0,
+    restored: 0,
+    created: 0,
+  };
+
+  // 無効なテンプレートのタスクは無効化時に論理削除済み
+  if (after.isActive !== true) {
+    return result;
+  }
+
+  let recurrenceChanged = hasFieldChanged(before, after, RECURRENCE_FIELDS);
+  const contentChanged = hasFieldChanged(before, after, CONTENT_FIELDS);
+  if (!recurrenceChanged && !contentChanged) {
+    return result;
+  }
+
+  const timeZone = await getTemplateTimeZone(db, after);
+  const futureDocs =
+    await getFutureTemplateTasks(db, templateId, after, timeZone);
+
+  let expectedKeys = new Set<string>();
+  if (recurrenceChanged) {
+    try {
+      const pendingDates = futureDocs
+        .filter((doc) =>
+          !doc.data().completedAt && doc.data().isDeleted !== true
+        )
+        .map(getScheduledDate);
+      expectedKeys = getExpectedDateKeys(after, pendingDates, timeZone);
+    } catch (error) {
+      if (!(error instanceof RRuleParseError)) {
+        throw error;
+      }
+      // 解析できない繰り返しでは既存タスクを消さず、内容の反映だけ行う
+      logger.warn(
+        `[テンプレート更新] rruleを解析できません: template=${templateId}, ` +
+        `rrule=${after.rrule}, error=${error.message}`
+      );
+      recurrenceChanged = false;
+    }
+  }
+
+  const remindAtChanged = hasFieldChanged(before, after, ["remindAt"]);
+  const snapshotFields = buildTaskSnapshotFields(after);
+  const writes: TaskWrite[] = [];
+
+  futureDocs.forEach((doc) => {
+    const task = doc.data();
+    if (task.completedAt) {
+      return;
+    }
+
+    const scheduledDate = getScheduledDate(doc);
+    const dateKey = toZonedDateKey(scheduledDate, timeZone);
+    const reminderFields = () => buildReminderFields(
+      after.remindAt,
+      toZonedCalendarDate(scheduledDate, timeZone),
+      timeZone
+    );
+
+    if (task.isDeleted === true) {
+      // 繰り返しの変更で削除したタスクが、再び繰り返しに合う日になった場合は復元
+      if (
+        recurrenceChanged &&
+        task.deletedReason === "recurrence_changed" &&
+        expectedKeys.has(dateKey)
+      ) {
+        writes.push({ref: doc.ref, data: {
+          ...snapshotFields,
+          ...reminderFields(),
+          isDeleted: false,
+          deletedReason: null,
+          deletedAt: null,
+        }});
+        result.restored++;
+      }
+      return;
+    }
+
+    // 延期されたタスクはユーザーが日付を決めたため、繰り返しに合わなくても残す
+    if (
+      recurrenceChanged &&
+      !task.postponedFrom &&
+      !expectedKeys.has(dateKey)
+    ) {
+      writes.push({ref: doc.ref, data: {
+        isDeleted: true,
+        deletedReason: "recurrence_changed" as TaskDeleteReason,
+        deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }});
+      result.deleted++;
+      return;
+    }
+
+    writes.push({ref: doc.ref, data: {
+      ...snapshotFields,
+      ...(remindAtChanged ? reminderFields() : {}),
+    }});
+    result.updated++;
+  });
+
+  await commitTaskWrites(db, writes);
+
+  // 新しい繰り返しで増えた日のタスクを生成（既存・削除済みの日付には生成しない）
+  if (recurrenceChanged && hasRecurrence(after)) {
+    const generation = await generateTemplateTasks(
+      db,
+      templateId,
+      after,
+      timeZone,
+      "[テンプレート更新]"
+    );
+    result.created = generation.created;
+  }
+
+  logger.info(
+    `[テンプレート更新] タスクに反映: template=${templateId}, ` +
+    `recurrenceChanged=${recurrenceChanged}, updated=${result.updated}, ` +
+    `deleted=${result.deleted}, restored=${result.restored}, ` +
+    `created=${result.created}`
+  );
+  return result;
+}
+
+/**
+ * テンプレートの無効化・削除時に、今日以降の未完了タスクを論理削除
+ * 完了済みのタスクと過去のタスクは履歴として残す
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - テンプレート
+ * @param {TaskDeleteReason} reason - 削除理由
+ * @return {Promise<number>} 論理削除したタスク数
+ */
+export async function softDeleteTemplateTasks(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  template: ScheduleTemplateData,
+  reason: "template_deactivated" | "template_deleted"
+): Promise<number> {
+  const timeZone = await getTemplateTimeZone(db, template);
+  const futureDocs =
+    await getFutureTemplateTasks(db, templateId, template, timeZone);
+
+  const writes: TaskWrite[] = futureDocs
+    .filter((doc) => !doc.data().completedAt && doc.data().isDeleted !== true)
+    .map((doc) => ({ref: doc.ref, data: {
+      isDeleted: true,
+      deletedReason: reason as TaskDeleteReason,
+      deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }}));
+  await commitTaskWrites(db, writes);
+
+  logger.info(
+    `[テンプレート無効化] タスクを論理削除: template=${templateId}, ` +
+    `reason=${reason}, deleted=${writes.length}`
+  );
+  return writes.length;
+}
+
+/**
+ * テンプレートの再有効化時に、無効化で論理削除した今日以降のタスクを復元
+ * 無効化中に変更された内容・繰り返しを反映し、繰り返しに合わない日のタスクは削除したままにする
+ * 足りない日のタスクは生成する
+ * @param {admin.firestore.Firestore} db - Firestoreインスタンス
+ * @param {string} templateId - テンプレートID
+ * @param {ScheduleTemplateData} template - 再有効化後のテンプレート
+ * @return {Promise<TemplateSyncResult>} 復元結果
+ */
+export async function restoreTemplateTasks(
+  db: admin.firestore.Firestore,
+  templateId: string,
+  template: ScheduleTemplateData
+): Promise<TemplateSyncResult> {
+  const result: TemplateSyncResult = {
+    updated: 0,
+    deleted: 0,
+    restored: 0,
+    created: 0,
+  };
+  const timeZone = await getTemplateTimeZone(db, template);
+  const futureDocs =
+    await getFutureTemplateTasks(db, templateId, template, timeZone);
+
+  const candidates = futureDocs.filter((doc) =>
+    !doc.data().completedAt &&
+    doc.data().isDeleted === true &&
+    doc.data().deletedReason === "template_deactivated"
+  );
+  const activeDates = futureDocs
+    .filter((doc) => !doc.data().completedAt && doc.data().isDeleted !== true)
+    .map(getScheduledDate);
+
+  let expectedKeys: Set<string>;
+  try {
+    expectedKeys = getExpectedDateKeys(
+      template,
+      [...activeDates, ...candidates.map(getScheduledDate)],
+      timeZone
+    );
+  } catch (error) {
+    if (!(error instanceof RRuleParseError)) {
+      throw error;
+    }
+    logger.warn(
+      `[テンプレート再有効化] rruleを解析できません: template=${templateId}, ` +
+      `rrule=${template.rrule}, error=${error.message}`
+    );
+    return result;
+  }
+
+  const snapshotFields = buildTaskSnapshotFields(template);
+  const writes: TaskWrite[] = [];
+  candidates.forEach((doc) => {
+    const scheduledDate = getScheduledDate(doc);
+    if (
+      !doc.data().postponedFrom &&
+      !expectedKeys.has(toZonedDateKey(scheduledDate, timeZone))
+    ) {
+      return;
+    }
+    writes.push({ref: doc.ref, data: {
+      ...snapshotFields,
+      ...buildReminderFields(
+        template.remindAt,
+        toZonedCalendarDate(scheduledDate, timeZone),
+        timeZone
+      ),
+      isDeleted: false,
+      deletedReason: null,
+      deletedAt: null,
+    }});
+  });
+  await commitTaskWrites(db, writes);
+  result.restored = writes.length;
+
+  if (hasRecurrence(template)) {
+    const generation = await generateTemplateTasks(
+      db,
+      templateId,
+      template,
+      timeZone,
+      "[テンプレート再有効化]"
+    );
+    result.created = generation.created;
+  }
+
+  logger.info(
+    `[テンプレート再有効化] タスクを復元: template=${templateId}, ` +
+    `restored=${result.restored}, created=${result.created}`
+  );
+  return result;
+}
@@ -0,0 +1,190 @@
+/**
+ * タイムゾーン関連のユーティリティ
+ * ユーザードキュメントの timeZone（IANA形式）に基づいて日付を計算する
+ */
+
+/**
+ * timeZone未設定時のデフォルトタイムゾーン
+ */
+export const DEFAULT_TIME_ZONE = "Asia/Tokyo";
+
+/**
+ * 指定タイムゾーンにおける日時の各要素
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 0始まり（JavaScriptのDateと同じ）
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0=日曜, 6=土曜
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * タイムゾーンごとのフォーマッタを取得（キャッシュ付き）
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {Intl.DateTimeFormat} フォーマッタ
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * タイムゾーン文字列が有効かどうかを判定
+ * @param {unknown} timeZone - 判定する値
+ * @return {boolean} 有効なIANAタイムゾーンの場合true
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || timeZone.length === 0) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ユーザー設定のタイムゾーンを解決（無効な場合はデフォルト）
+ * @param {unknown} timeZone - ユーザードキュメントのtimeZone
+ * @return {string} 有効なIANAタイムゾーン
+ */
+export function resolveTimeZone(timeZone: unknown): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+/**
+ * 指定タイムゾーンでの日時の各要素を取得
+ * @param {Date} date - 対象の日時
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {ZonedDateParts} 日時の各要素
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month) - 1,
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_INDEX[parts.weekday] ?? 0,
+  };
+}
+
+/**
+ * 指定タイムゾーンの壁時計時刻をUTCの瞬間に変換
+ * 夏時間の切り替わりで存在しない時刻は前後にずれる場合がある
+ * @param {number} year - 年
+ * @param {number} month - 月（0始まり）
+ * @param {number} day - 日
+ * @param {string} timeZone - IANAタイムゾーン
+ * @param {number} hour - 時（デフォルト0）
+ * @param {number} minute - 分（デフォルト0）
+ * @return {Date} 対応するUTCの瞬間
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string,
+  hour = 0,
+  minute = 0
+): Date {
+  const wallClock = Date.UTC(year, month, day, hour, minute);
+  // オフセットを2回推定して夏時間の境界に対応
+  let utc = wallClock - getOffsetMillis(new Date(wallClock), timeZone);
+  utc = wallClock - getOffsetMillis(new Date(utc), timeZone);
+  return new Date(utc);
+}
+
+/**
+ * 指定瞬間におけるタイムゾーンのUTCオフセット（ミリ秒）を取得
+ * @param {Date} date - 対象の日時
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {number} UTCオフセット（ミリ秒）
+ */
+function getOffsetMillis(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return asUtc - truncated;
+}
+
+/**
+ * 指定タイムゾーンでの「今日」の0時（UTCの瞬間）を取得
+ * @param {Date} date - 基準日時
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {Date} 今日の0時
+ */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day, timeZone);
+}
+
+/**
+ * 指定タイムゾーンでの日付（カレンダー上の日）を取得
+ * 戻り値はサーバーローカルの0時として表現する（日付計算用）
+ * @param {Date} date - 対象の日時
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {Date} カレンダー上の日付
+ */
+export function toZonedCalendarDate(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return new Date(p.year, p.month, p.day);
+}
+
+/**
+ * カレンダー上の日付を指定タイムゾーンの0時（UTCの瞬間）に変換
+ * @param {Date} calendarDate - サーバーローカルの0時で表現された日付
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {Date} 指定タイムゾーンの0時
+ */
+export function calendarDateToZonedMidnight(
+  calendarDate: Date,
+  timeZone: string
+): Date {
+  return zonedTimeToUtc(
+    calendarDate.getFullYear(),
+    calendarDate.getMonth(),
+    calendarDate.getDate(),
+    timeZone
+  );
+}
+
+/**
+ * 指定タイムゾーンでの日付キー（YYYY-MM-DD）を作成
+ * @param {Date} date - 対象の日時
+ * @param {string} timeZone - IANAタイムゾーン
+ * @return {string} 日付キー
+ */
+export function toZonedDateKey(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const month = (p.month + 1).toString().padStart(2, "0");
+  const day = p.day.toString().padStart(2, "0");
+  return `${p.year}-${month}-${day}`;
+}
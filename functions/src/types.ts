@@ -0,0 +1,115 @@
+import * as admin from "firebase-admin";
+
+/**
+ * タスクの型定義（tasksドキュメントの正規のスキーマ）
+ * 旧スキーマ（isGroupTask・groupCompletedAt）のドキュメントは
+ * migrateTaskSchemaでこの形式に移行する
+ */
+export interface TaskData {
+  // スキーマのバージョン（TASK_SCHEMA_VERSION）
+  schemaVersion: number;
+  // 個人タスクの所有者（グループタスクはnull）
+  userId: string | null;
+  templateId: string | null;
+  title: string;
+  description: string;
+  scheduledDate: admin.firestore.Timestamp;
+  completedAt: admin.firestore.Timestamp | null;
+  completedByMemberId: string | null;
+  // グループタスクの担当者（ローテーションがない場合はnull）
+  assigneeId?: string | null;
+  isGroupSchedule: boolean;
+  groupId: string | null;
+  isDeleted: boolean;
+  // システムによる論理削除の理由と日時（ユーザーの削除では未設定）
+  deletedReason?: string | null;
+  deletedAt?: admin.firestore.Timestamp | null;
+  repeatType: string;
+  weekdays: number[] | null;
+  repeatInterval: number | null;
+  monthlyDay: number | null;
+  // リマインダー（remindAtはHH:mm）
+  remindAt: string | null;
+  nextReminderAt: admin.firestore.Timestamp | null;
+  reminderStatus: string | null;
+  reminderSentAt?: admin.firestore.Timestamp | null;
+  // 完了日基準の繰り返しの前後のタスク
+  nextTaskId?: string;
+  generatedFromTaskId?: string;
+  // 延期・スヌーズ
+  postponedFrom?: admin.firestore.Timestamp;
+  snoozedAt?: admin.firestore.Timestamp;
+  createdAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * 担当者のローテーションの方式
+ * roundRobin: 順番どおり / leastRecentlyCompleted: 最後に担当したのが最も前のメンバー
+ * weekday: 曜日ごとに固定
+ */
+export type RotationMode = "roundRobin" | "leastRecentlyCompleted" | "weekday";
+
+/**
+ * グループ予定の担当者のローテーション（当番）
+ */
+export interface AssigneeRotation {
+  mode: RotationMode;
+  // 担当の順番（未指定の場合はグループの全メンバー）
+  memberIds?: string[];
+  // weekdayの場合の曜日（"1"=月曜〜"7"=日曜）ごとの担当者
+  weekdayAssignees?: Record<string, string>;
+}
+
+/**
+ * スケジュールテンプレートの型定義
+ */
+export interface ScheduleTemplateData {
+  id: string;
+  userId: string;
+  title: string;
+  description: string;
+  repeatType: string;
+  repeatInterval?: number;
+  selectedWeekdays?: number[];
+  monthlyDay?: number;
+  // RFC 5545形式の繰り返し定義（DTSTART・RRULE・EXDATE）。repeatTypeより優先
+  rrule?: string;
+  // 祝日の扱い（未指定の場合はHolidayPolicy.NONE）
+  holidayPolicy?: string;
+  // リマインダー時刻（HH:mm、タスクの日付のこの時刻に通知）
+  remindAt?: string;
+  requiresCompletion: boolean;
+  isActive: boolean;
+  isGroupSchedule: boolean;
+  groupId?: string;
+  // グループ予定の担当者のローテーション
+  assigneeRotation?: AssigneeRotation;
+  createdAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * 繰り返しタイプの列挙型
+ */
+export enum RepeatType {
+  NONE = "none",
+  DAILY = "daily",
+  CUSTOM_WEEKLY = "customWeekly",
+  MONTHLY = "monthly",
+  MONTHLY_LAST_DAY = "monthlyLastDay",
+  CUSTOM = "custom",
+}
+
+/**
+ * 祝日の扱いの列挙型
+ */
+export enum HolidayPolicy {
+  // 祝日も通常どおり生成
+  NONE = "none",
+  // 祝日は生成しない
+  SKIP = "skip",
+  // 翌営業日に移動
+  NEXT_BUSINESS_DAY = "nextBusinessDay",
+  // 前営業日に移動
+  PREVIOUS_BUSINESS_DAY = "previousBusinessDay",
+}
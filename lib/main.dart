@@ -1,3 +1,4 @@
+import 'dart:async';
 import 'package:flutter/material.dart';
 import 'package:flutter/foundation.dart';
 import 'package:flutter/services.dart';
@@ -7,11 +8,13 @@ import 'package:intl/date_symbol_data_local.dart';
 import 'package:firebase_messaging/firebase_messaging.dart';
 import 'package:flutter_localizations/flutter_localizations.dart';
 import 'package:flutter_dotenv/flutter_dotenv.dart';
+import 'package:flutter_timezone/flutter_timezone.dart';
 import 'services/ad_manager.dart';
 import 'services/ad_free_manager.dart';
 import 'services/fcm_service.dart';
 import 'services/task_generation_service.dart';
 import 'repositories/user_profile_repository.dart';
+import 'repositories/notification_settings_repository.dart';
 import 'router.dart';
 import 'package:firebase_core/firebase_core.dart';
 import 'package:firebase_analytics/firebase_analytics.dart';
@@ -146,6 +149,8 @@ class MyApp extends ConsumerStatefulWidget {
 }
 
 class _MyAppState extends ConsumerState<MyApp> with WidgetsBindingObserver {
+  StreamSubscription<User?>? _authSubscription;
+
   @override
   void initState() {
     super.initState();
@@ -155,6 +160,26 @@ class _MyAppState extends ConsumerState<MyApp> with WidgetsBindingObserver {
     WidgetsBinding.instance.addPostFrameCallback((_) {
       _initializeUserData();
     });
+
+    // サインインのたびに端末のタイムゾーンを保存（起動時の匿名ユーザーも含む）
+    _authSubscription = FirebaseAuth.instance.authStateChanges().listen((user) {
+      if (user != null) {
+        _saveDeviceTimeZone(user.uid);
+      }
+    });
+  }
+
+  /// 端末のタイムゾーン（IANA形式）をユーザーの設定に保存
+  /// サーバーの通知時刻・日付の判定はこのタイムゾーンで行われる
+  Future<void> _saveDeviceTimeZone(String userId) async {
+    try {
+      final timeZone = await FlutterTimezone.getLocalTimezone();
+      await NotificationSettingsRepository().updateTimeZone(userId, timeZone);
+    } catch (e) {
+      if (kDebugMode) {
+        print('[MyApp] タイムゾーン保存エラー: $e');
+      }
+    }
   }
 
   /// ユーザーデータを初期化（プロフィール作成 + FCM初期化 + タスク自動生成）
@@ -224,6 +249,7 @@ class _MyAppState extends ConsumerState<MyApp> with WidgetsBindingObserver {
   @override
   void dispose() {
     WidgetsBinding.instance.removeObserver(this);
+    _authSubscription?.cancel();
     AdFreeManager.dispose();
     super.dispose();
   }
@@ -1,15 +1,35 @@
+import 'package:cloud_firestore/cloud_firestore.dart';
+
 /// 通知設定モデル
 class NotificationSettings {
   final bool morningEnabled;
   final int morningHour;
   final bool eveningEnabled;
   final int eveningHour;
+  final bool quietHoursEnabled; // おやすみ時間の有効/無効
+  final int quietHoursStart; // おやすみ時間の開始（時）
+  final int quietHoursEnd; // おやすみ時間の終了（時）
+  final DateTime? muteUntil; // この時刻まで全ての通知をミュート
+  final String locale; // 通知の言語（ja / en）
+  final String timeZone; // 通知時刻・日付の判定に使うタイムゾーン（IANA形式）
+  final bool summaryEnabled; // 週次のふりかえりの有効/無効
+  final int summaryWeekday; // ふりかえりの曜日（1=月曜〜7=日曜）
+  final int summaryHour; // ふりかえりの時刻（時）
 
   NotificationSettings({
     required this.morningEnabled,
     required this.morningHour,
     required this.eveningEnabled,
     required this.eveningHour,
+    this.quietHoursEnabled = false,
+    this.quietHoursStart = 22,
+    this.quietHoursEnd = 7,
+    this.muteUntil,
+    this.locale = 'ja',
+    this.timeZone = 'Asia/Tokyo',
+    this.summaryEnabled = false,
+    this.summaryWeekday = DateTime.sunday,
+    this.summaryHour = 20,
   });
 
   /// デフォルト設定
@@ -29,6 +49,15 @@ class NotificationSettings {
       morningHour: data['morningHour'] as int? ?? 7,
       eveningEnabled: data['eveningEnabled'] as bool? ?? true,
       eveningHour: data['eveningHour'] as int? ?? 19,
+      quietHoursEnabled: data['quietHoursEnabled'] as bool? ?? false,
+      quietHoursStart: data['quietHoursStart'] as int? ?? 22,
+      quietHoursEnd: data['quietHoursEnd'] as int? ?? 7,
+      muteUntil: (data['muteUntil'] as Timestamp?)?.toDate(),
+      locale: data['locale'] as String? ?? 'ja',
+      timeZone: data['timeZone'] as String? ?? 'Asia/Tokyo',
+      summaryEnabled: data['summaryEnabled'] as bool? ?? false,
+      summaryWeekday: data['summaryWeekday'] as int? ?? DateTime.sunday,
+      summaryHour: data['summaryHour'] as int? ?? 20,
     );
   }
 
@@ -39,21 +68,53 @@ class NotificationSettings {
       'morningHour': morningHour,
       'eveningEnabled': eveningEnabled,
       'eveningHour': eveningHour,
+      'quietHoursEnabled': quietHoursEnabled,
+      'quietHoursStart': quietHoursStart,
+      'quietHoursEnd': quietHoursEnd,
+      'muteUntil': muteUntil != null ? Timestamp.fromDate(muteUntil!) : null,
+      'locale': locale,
+      'timeZone': timeZone,
+      'summaryEnabled': summaryEnabled,
+      'summaryWeekday': summaryWeekday,
+      'summaryHour': summaryHour,
     };
   }
 
+  /// 現在ミュート中かどうか
+  bool get isMuted => muteUntil != null && muteUntil!.isAfter(DateTime.now());
+
   /// コピーを作成
+  /// ミュートを解除する場合はclearMuteUntilをtrueにする（muteUntilのnullは変更なし）
   NotificationSettings copyWith({
     bool? morningEnabled,
     int? morningHour,
     bool? eveningEnabled,
     int? eveningHour,
+    bool? quietHoursEnabled,
+    int? quietHoursStart,
+    int? quietHoursEnd,
+    DateTime? muteUntil,
+    bool clearMuteUntil = false,
+    String? locale,
+    String? timeZone,
+    bool? summaryEnabled,
+    int? summaryWeekday,
+    int? summaryHour,
   }) {
     return NotificationSettings(
       morningEnabled: morningEnabled ?? this.morningEnabled,
       morningHour: morningHour ?? this.morningHour,
       eveningEnabled: eveningEnabled ?? this.eveningEnabled,
       eveningHour: eveningHour ?? this.eveningHour,
+      quietHoursEnabled: quietHoursEnabled ?? this.quietHoursEnabled,
+      quietHoursStart: quietHoursStart ?? this.quietHoursStart,
+      quietHoursEnd: quietHoursEnd ?? this.quietHoursEnd,
+      muteUntil: clearMuteUntil ? null : muteUntil ?? this.muteUntil,
+      locale: locale ?? this.locale,
+      timeZone: timeZone ?? this.timeZone,
+      summaryEnabled: summaryEnabled ?? this.summaryEnabled,
+      summaryWeekday: summaryWeekday ?? this.summaryWeekday,
+      summaryHour: summaryHour ?? this.summaryHour,
     );
   }
 }
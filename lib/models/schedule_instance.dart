@@ -9,6 +9,9 @@ enum TaskStatus {
 
 /// 個別タスク（予定テンプレートから生成される実際のタスク）
 class Task {
+  /// tasksドキュメントのスキーマのバージョン（functions/src/taskSchema.tsと合わせる）
+  static const int schemaVersion = 2;
+
   final String id;
   final String userId;
   final String templateId; // 親テンプレートへの参照
@@ -17,6 +20,7 @@ class Task {
   final DateTime scheduledDate; // この個別タスクの予定日
   final DateTime? completedAt; // 完了日時
   final String? completedByMemberId; // 完了したメンバーのUID（グループ予定用）
+  final String? assigneeId; // 担当者のUID（グループ予定の当番ローテーション用）
 
   // グループ予定用フィールド
   final String? groupId;
@@ -46,6 +50,7 @@ class Task {
     required this.scheduledDate,
     this.completedAt,
     this.completedByMemberId,
+    this.assigneeId,
     this.groupId,
     this.isGroupSchedule = false,
     this.repeatType = 'none',
@@ -70,6 +75,7 @@ class Task {
       scheduledDate: (data['scheduledDate'] as Timestamp).toDate(),
       completedAt: data['completedAt'] != null ? (data['completedAt'] as Timestamp).toDate() : null,
       completedByMemberId: data['completedByMemberId'],
+      assigneeId: data['assigneeId'] as String?,
       groupId: data['groupId'],
       isGroupSchedule: data['isGroupSchedule'] ?? false,
       repeatType: data['repeatType'] ?? 'none',
@@ -85,6 +91,7 @@ class Task {
   /// Firestore に保存するためのマップに変換
   Map<String, dynamic> toFirestore() {
     return {
+      'schemaVersion': schemaVersion,
       'userId': userId,
       'templateId': templateId,
       'title': title,
@@ -92,6 +99,7 @@ class Task {
       'scheduledDate': Timestamp.fromDate(scheduledDate),
       'completedAt': completedAt != null ? Timestamp.fromDate(completedAt!) : null,
       'completedByMemberId': completedByMemberId,
+      'assigneeId': assigneeId,
       'groupId': groupId,
       'isGroupSchedule': isGroupSchedule,
       'repeatType': repeatType,
@@ -114,6 +122,7 @@ class Task {
     DateTime? scheduledDate,
     DateTime? completedAt,
     String? completedByMemberId,
+    String? assigneeId,
     String? groupId,
     bool? isGroupSchedule,
     String? repeatType,
@@ -134,6 +143,7 @@ class Task {
       scheduledDate: scheduledDate ?? this.scheduledDate,
       completedAt: completedAt ?? this.completedAt,
       completedByMemberId: completedByMemberId ?? this.completedByMemberId,
+      assigneeId: assigneeId ?? this.assigneeId,
       groupId: groupId ?? this.groupId,
       isGroupSchedule: isGroupSchedule ?? this.isGroupSchedule,
       repeatType: repeatType ?? this.repeatType,
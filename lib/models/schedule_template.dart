@@ -24,6 +24,48 @@ extension RepeatTypeExtension on RepeatType {
   }
 }
 
+/// 担当者のローテーションの方式
+enum RotationMode {
+  roundRobin, // 順番どおり
+  leastRecentlyCompleted, // 最後に担当したのが最も前のメンバー
+  weekday, // 曜日ごとに固定
+}
+
+/// グループ予定の担当者のローテーション（当番）
+class AssigneeRotation {
+  final RotationMode mode;
+  final List<String>? memberIds; // 担当の順番（未指定の場合はグループの全メンバー）
+  final Map<String, String>? weekdayAssignees; // 曜日（"1"=月曜〜"7"=日曜）ごとの担当者
+
+  AssigneeRotation({
+    required this.mode,
+    this.memberIds,
+    this.weekdayAssignees,
+  });
+
+  /// Firestoreのマップから AssigneeRotation オブジェクトを作成
+  factory AssigneeRotation.fromMap(Map<String, dynamic> data) {
+    return AssigneeRotation(
+      mode: RotationMode.values.firstWhere(
+        (e) => e.name == data['mode'],
+        orElse: () => RotationMode.roundRobin,
+      ),
+      memberIds: (data['memberIds'] as List<dynamic>?)?.map((e) => e as String).toList(),
+      weekdayAssignees: (data['weekdayAssignees'] as Map<String, dynamic>?)
+          ?.map((key, value) => MapEntry(key, value as String)),
+    );
+  }
+
+  /// Firestore に保存するためのマップに変換
+  Map<String, dynamic> toMap() {
+    return {
+      'mode': mode.name,
+      'memberIds': memberIds,
+      'weekdayAssignees': weekdayAssignees,
+    };
+  }
+}
+
 /// 予定テンプレート（繰り返し設定を保持する親要素）
 class ScheduleTemplate {
   final String id;
@@ -34,12 +76,16 @@ class ScheduleTemplate {
   final int? repeatInterval; // カスタム繰り返しの間隔（日数）
   final List<int>? selectedWeekdays; // 選択された曜日リスト（1=月曜, 7=日曜）
   final int? monthlyDay; // 毎月の指定日（1〜28）
+  final String? rrule; // RFC 5545形式の繰り返し定義（指定時はrepeatTypeより優先）
+  final String? holidayPolicy; // 祝日の扱い（none / skip / nextBusinessDay / previousBusinessDay）
+  final String? remindAt; // リマインダー時刻（HH:mm）
   final bool requiresCompletion; // 完了必須フラグ（カスタムのみ）
   final bool isActive; // テンプレートの有効/無効
 
   // グループ予定用フィールド
   final String? groupId;
   final bool isGroupSchedule;
+  final AssigneeRotation? assigneeRotation; // 担当者のローテーション（グループ予定のみ）
 
   final DateTime createdAt;
   final DateTime updatedAt;
@@ -53,10 +99,14 @@ class ScheduleTemplate {
     this.repeatInterval,
     this.selectedWeekdays,
     this.monthlyDay,
+    this.rrule,
+    this.holidayPolicy,
+    this.remindAt,
     this.requiresCompletion = false,
     this.isActive = true,
     this.groupId,
     this.isGroupSchedule = false,
+    this.assigneeRotation,
     required this.createdAt,
     required this.updatedAt,
   });
@@ -75,10 +125,16 @@ class ScheduleTemplate {
       repeatInterval: data['repeatInterval'],
       selectedWeekdays: (data['selectedWeekdays'] as List<dynamic>?)?.map((e) => e as int).toList(),
       monthlyDay: data['monthlyDay'],
+      rrule: data['rrule'] as String?,
+      holidayPolicy: data['holidayPolicy'] as String?,
+      remindAt: data['remindAt'] as String?,
       requiresCompletion: data['requiresCompletion'] ?? false,
       isActive: data['isActive'] ?? true,
       groupId: data['groupId'],
       isGroupSchedule: data['isGroupSchedule'] ?? false,
+      assigneeRotation: data['assigneeRotation'] != null
+          ? AssigneeRotation.fromMap(data['assigneeRotation'] as Map<String, dynamic>)
+          : null,
       createdAt: (data['createdAt'] as Timestamp).toDate(),
       updatedAt: (data['updatedAt'] as Timestamp).toDate(),
     );
@@ -94,10 +150,14 @@ class ScheduleTemplate {
       'repeatInterval': repeatInterval,
       'selectedWeekdays': selectedWeekdays,
       'monthlyDay': monthlyDay,
+      'rrule': rrule,
+      'holidayPolicy': holidayPolicy,
+      'remindAt': remindAt,
       'requiresCompletion': requiresCompletion,
       'isActive': isActive,
       'groupId': groupId,
       'isGroupSchedule': isGroupSchedule,
+      'assigneeRotation': assigneeRotation?.toMap(),
       'createdAt': Timestamp.fromDate(createdAt),
       'updatedAt': Timestamp.fromDate(updatedAt),
     };
@@ -113,10 +173,14 @@ class ScheduleTemplate {
     int? repeatInterval,
     List<int>? selectedWeekdays,
     int? monthlyDay,
+    String? rrule,
+    String? holidayPolicy,
+    String? remindAt,
     bool? requiresCompletion,
     bool? isActive,
     String? groupId,
     bool? isGroupSchedule,
+    AssigneeRotation? assigneeRotation,
     DateTime? createdAt,
     DateTime? updatedAt,
   }) {
@@ -129,10 +193,14 @@ class ScheduleTemplate {
       repeatInterval: repeatInterval ?? this.repeatInterval,
       selectedWeekdays: selectedWeekdays ?? this.selectedWeekdays,
       monthlyDay: monthlyDay ?? this.monthlyDay,
+      rrule: rrule ?? this.rrule,
+      holidayPolicy: holidayPolicy ?? this.holidayPolicy,
+      remindAt: remindAt ?? this.remindAt,
       requiresCompletion: requiresCompletion ?? this.requiresCompletion,
       isActive: isActive ?? this.isActive,
       groupId: groupId ?? this.groupId,
       isGroupSchedule: isGroupSchedule ?? this.isGroupSchedule,
+      assigneeRotation: assigneeRotation ?? this.assigneeRotation,
       createdAt: createdAt ?? this.createdAt,
       updatedAt: updatedAt ?? this.updatedAt,
     );
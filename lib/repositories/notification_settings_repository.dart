@@ -71,4 +71,62 @@ class NotificationSettingsRepository {
       SetOptions(merge: true),
     );
   }
+
+  /// おやすみ時間を更新
+  Future<void> updateQuietHours(
+    String userId, {
+    required bool enabled,
+    required int startHour,
+    required int endHour,
+  }) async {
+    await _firestore.collection('users').doc(userId).set(
+      {
+        'quietHoursEnabled': enabled,
+        'quietHoursStart': startHour,
+        'quietHoursEnd': endHour,
+      },
+      SetOptions(merge: true),
+    );
+  }
+
+  /// 通知の言語を更新（ja / en）
+  Future<void> updateLocale(String userId, String locale) async {
+    await _firestore.collection('users').doc(userId).set(
+      {'locale': locale},
+      SetOptions(merge: true),
+    );
+  }
+
+  /// タイムゾーンを更新（IANA形式、例: Asia/Tokyo）
+  Future<void> updateTimeZone(String userId, String timeZone) async {
+    await _firestore.collection('users').doc(userId).set(
+      {'timeZone': timeZone},
+      SetOptions(merge: true),
+    );
+  }
+
+  /// 週次のふりかえりを更新（weekdayは1=月曜〜7=日曜）
+  Future<void> updateSummarySettings(
+    String userId, {
+    required bool enabled,
+    required int weekday,
+    required int hour,
+  }) async {
+    await _firestore.collection('users').doc(userId).set(
+      {
+        'summaryEnabled': enabled,
+        'summaryWeekday': weekday,
+        'summaryHour': hour,
+      },
+      SetOptions(merge: true),
+    );
+  }
+
+  /// 指定時刻までミュート（nullで解除）
+  Future<void> updateMuteUntil(String userId, DateTime? muteUntil) async {
+    await _firestore.collection('users').doc(userId).set(
+      {'muteUntil': muteUntil != null ? Timestamp.fromDate(muteUntil) : null},
+      SetOptions(merge: true),
+    );
+  }
 }
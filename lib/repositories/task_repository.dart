@@ -106,89 +106,18 @@ class TaskRepository {
         throw Exception('タスクが見つかりません');
       }
 
-      final taskData = taskDoc.data() as Map<String, dynamic>;
-      final templateId = taskData['templateId'] as String?;
-
       // タスクを完了
+      // カスタム繰り返し（完了後N日ごと）の次回タスクはCloud Functionsで生成される
       await _collection.doc(taskId).update({
         'completedAt': FieldValue.serverTimestamp(),
         'completedByMemberId': completedByMemberId,
         'updatedAt': FieldValue.serverTimestamp(),
       });
-
-      // テンプレートの requiresCompletion をチェック
-      if (templateId != null) {
-        final templateDoc = await FirebaseFirestore.instance.collection('schedule_templates').doc(templateId).get();
-
-        if (templateDoc.exists) {
-          final templateData = templateDoc.data();
-          final requiresCompletion = templateData?['requiresCompletion'] as bool?;
-          final repeatType = templateData?['repeatType'] as String?;
-
-          // requiresCompletion=true かつ CUSTOM の場合、次のタスクを生成
-          if (requiresCompletion == true && repeatType == 'custom') {
-            await _generateNextTask(templateData!, templateId, taskData);
-          }
-        }
-      }
     } catch (e) {
       throw Exception('${AppMessages.errorTaskCompleteFailed}: $e');
     }
   }
 
-  /// 次のタスクを生成（完了後繰り返し用）
-  Future<void> _generateNextTask(
-    Map<String, dynamic> templateData,
-    String templateId,
-    Map<String, dynamic> completedTaskData,
-  ) async {
-    try {
-      // 完了したタスクの scheduledDate を基準に次のタスク日を計算
-      final completedDate = (completedTaskData['scheduledDate'] as Timestamp).toDate();
-      final repeatInterval = templateData['repeatInterval'] as int? ?? 1;
-
-      // repeatInterval 日後を次のタスク日とする
-      final nextTaskDate = DateTime(
-        completedDate.year,
-        completedDate.month,
-        completedDate.day + repeatInterval,
-      );
-
-      // グループタスクの場合はテンプレートのuserIdを使用、個人タスクの場合は完了したタスクのuserIdを使用
-      final isGroupSchedule = completedTaskData['isGroupSchedule'] ?? false;
-      final userId = isGroupSchedule ? templateData['userId'] : completedTaskData['userId'];
-
-      // 次のタスクを作成
-      await _collection.add({
-        'userId': userId,
-        'groupId': completedTaskData['groupId'],
-        'templateId': templateId,
-        'title': templateData['title'],
-        'description': templateData['description'] ?? '',
-        'scheduledDate': Timestamp.fromDate(nextTaskDate),
-        'completedAt': null,
-        'completedByMemberId': null,
-        'isGroupSchedule': isGroupSchedule,
-        'isDeleted': false,
-        'repeatType': templateData['repeatType'],
-        'weekdays': templateData['selectedWeekdays'],
-        'monthlyDay': null,
-        'repeatInterval': repeatInterval,
-        'createdAt': FieldValue.serverTimestamp(),
-        'updatedAt': FieldValue.serverTimestamp(),
-      });
-
-      if (kDebugMode) {
-        print('[TaskRepository] 次のタスクを生成: template=$templateId, date=${nextTaskDate.toString()}');
-      }
-    } catch (e) {
-      if (kDebugMode) {
-        print('[TaskRepository] 次のタスク生成エラー: $e');
-      }
-      // エラーが発生してもタスク完了自体は成功させる
-    }
-  }
-
   /// タスクの完了を解除する
   Future<void> uncompleteTask(String taskId) async {
     try {
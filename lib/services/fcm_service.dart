@@ -137,13 +137,39 @@ class FCMService {
     }
   }
 
-  /// FCMトークンをFirestoreに保存
+  /// デバイスごとのFCMトークンを保存するサブコレクション名
+  static const String _tokensCollection = 'fcm_tokens';
+
+  /// 現在のプラットフォーム名
+  String get _platformName {
+    switch (defaultTargetPlatform) {
+      case TargetPlatform.iOS:
+        return 'ios';
+      case TargetPlatform.android:
+        return 'android';
+      case TargetPlatform.macOS:
+        return 'macos';
+      default:
+        return defaultTargetPlatform.name;
+    }
+  }
+
+  /// FCMトークンをFirestoreに保存（デバイスごとに users/{uid}/fcm_tokens/{token}）
   Future<void> _saveTokenToFirestore(String userId, String token) async {
     try {
-      await _firestore.collection('users').doc(userId).set({
-        'fcmToken': token,
+      final userRef = _firestore.collection('users').doc(userId);
+      final batch = _firestore.batch();
+      batch.set(userRef.collection(_tokensCollection).doc(token), {
+        'token': token,
+        'platform': _platformName,
+        'lastSeenAt': FieldValue.serverTimestamp(),
+      }, SetOptions(merge: true));
+      // 旧形式の単一トークンフィールドは削除
+      batch.set(userRef, {
+        'fcmToken': FieldValue.delete(),
         'updatedAt': FieldValue.serverTimestamp(),
       }, SetOptions(merge: true));
+      await batch.commit();
 
       if (kDebugMode) {
         print('[FCMService] FCMトークンをFirestoreに保存しました');
@@ -232,8 +258,13 @@ class FCMService {
   /// FCMトークンを削除（ログアウト時など）
   Future<void> deleteToken(String userId) async {
     try {
+      final token = _currentToken ?? await _messaging.getToken();
       await _messaging.deleteToken();
-      await _firestore.collection('users').doc(userId).update({
+      final userRef = _firestore.collection('users').doc(userId);
+      if (token != null) {
+        await userRef.collection(_tokensCollection).doc(token).delete();
+      }
+      await userRef.update({
         'fcmToken': FieldValue.delete(),
       });
 